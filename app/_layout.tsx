@@ -3,11 +3,13 @@ import { useFonts } from "expo-font";
 import { Stack } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
 import { StatusBar } from "expo-status-bar";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
 import "react-native-reanimated";
 import Toast from 'react-native-toast-message';
 
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { runMigrations } from "@/lib/migrations";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -17,27 +19,41 @@ export default function RootLayout() {
   const [loaded] = useFonts({
     SpaceMono: require("../assets/fonts/SpaceMono-Regular.ttf"),
   });
+  const [migrated, setMigrated] = useState(false);
 
+  // Persisted data must be upgraded before any screen reads it.
   useEffect(() => {
-    if (loaded) {
+    runMigrations()
+      .catch((error) => console.error("数据迁移失败:", error))
+      .finally(() => setMigrated(true));
+  }, []);
+
+  useEffect(() => {
+    if (loaded && migrated) {
       SplashScreen.hideAsync();
     }
-  }, [loaded]);
+  }, [loaded, migrated]);
 
-  if (!loaded) {
+  if (!loaded || !migrated) {
     return null;
   }
 
   return (
-    <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="+not-found" options={{ headerShown: false }} />
-        <Stack.Screen name="index" options={{ headerShown: false }} />
-        <Stack.Screen name="tag-management" options={{ headerShown: false }} />
-      </Stack>
-      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
-      <Toast />
-    </ThemeProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
+        <Stack>
+          <Stack.Screen name="+not-found" options={{ headerShown: false }} />
+          <Stack.Screen name="index" options={{ headerShown: false }} />
+          <Stack.Screen name="tag-management" options={{ headerShown: false }} />
+          <Stack.Screen name="export" options={{ headerShown: false }} />
+          <Stack.Screen name="backup" options={{ headerShown: false }} />
+          <Stack.Screen name="trash" options={{ headerShown: false }} />
+          <Stack.Screen name="viewer" options={{ headerShown: false }} />
+        </Stack>
+        <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+        <Toast />
+      </ThemeProvider>
+    </GestureHandlerRootView>
   );
 }
 
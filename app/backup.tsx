@@ -0,0 +1,352 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from "react-native";
+import { AntDesign } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+import { router } from "expo-router";
+import {
+  createBackup,
+  discardBackup,
+  pickBackupFile,
+  readBackup,
+  restoreBackup,
+  type BackupContents,
+  type RestoreMode,
+} from "@/lib/backup";
+import { formatDate } from "@/lib/dates";
+import {
+  getMigrationBackup,
+  restoreMigrationBackup,
+  runMigrations,
+  type MigrationBackup,
+} from "@/lib/migrations";
+import { imageStore, projectStore, tagGroupStore } from "@/lib/storage";
+import { shareFile } from "@/lib/zipExport";
+import { useStore } from "@/hooks/useStore";
+
+const BackupScreen = () => {
+  const images = useStore(imageStore);
+  const tagGroups = useStore(tagGroupStore);
+  const projects = useStore(projectStore);
+  const [busyText, setBusyText] = useState<string | null>(null);
+  const [pendingBackup, setPendingBackup] = useState<BackupContents | null>(null);
+  // 应用升级时自动保存的数据，只有执行过数据迁移才存在
+  const [migrationBackup, setMigrationBackup] = useState<MigrationBackup | null>(null);
+
+  useEffect(() => {
+    getMigrationBackup()
+      .then(setMigrationBackup)
+      .catch((error) => console.error("读取升级前数据失败:", error));
+  }, []);
+
+  const handleCreateBackup = async () => {
+    setBusyText("正在创建备份…");
+    try {
+      const result = await createBackup(images, tagGroups, projects);
+      Toast.show({
+        type: result.skipped > 0 ? "info" : "success",
+        text1: "备份完成",
+        text2:
+          result.skipped > 0
+            ? `已备份 ${result.count} 张图片，${result.skipped} 张图片文件读取失败`
+            : `已备份 ${result.count} 张图片`,
+      });
+      const shared = await shareFile(result.uri, "application/zip", "保存备份文件");
+      if (!shared) {
+        Toast.show({
+          type: "info",
+          text1: "提示",
+          text2: "当前设备不支持分享，备份已保存在应用目录中",
+        });
+      }
+    } catch (error) {
+      console.error("创建备份失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "创建备份失败",
+      });
+    } finally {
+      setBusyText(null);
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      const uri = await pickBackupFile();
+      if (!uri) return;
+      setBusyText("正在校验备份…");
+      setPendingBackup(await readBackup(uri));
+    } catch (error) {
+      console.error("读取备份失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "无法恢复",
+        text2: error instanceof Error ? error.message : "读取备份失败",
+      });
+    } finally {
+      setBusyText(null);
+    }
+  };
+
+  const cancelRestore = () => {
+    if (pendingBackup) discardBackup(pendingBackup);
+    setPendingBackup(null);
+  };
+
+  const runRestore = async (mode: RestoreMode) => {
+    if (!pendingBackup) return;
+    setBusyText("正在恢复…");
+    try {
+      const { added, skipped } = await restoreBackup(pendingBackup, mode);
+      Toast.show({
+        type: "success",
+        text1: "恢复完成",
+        text2:
+          skipped > 0 ? `已恢复 ${added} 张图片，跳过 ${skipped} 张` : `已恢复 ${added} 张图片`,
+      });
+      router.back();
+    } catch (error) {
+      console.error("恢复备份失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "恢复备份失败",
+      });
+    } finally {
+      setPendingBackup(null);
+      setBusyText(null);
+    }
+  };
+
+  // 还原后立即重新迁移并重新加载，避免内存中的数据覆盖还原的内容
+  const runMigrationRestore = async () => {
+    setBusyText("正在还原…");
+    try {
+      await restoreMigrationBackup();
+      await runMigrations();
+      await imageStore.load();
+      await tagGroupStore.load();
+      Toast.show({
+        type: "success",
+        text1: "还原完成",
+        text2: "已还原为升级时的数据",
+      });
+      router.back();
+    } catch (error) {
+      console.error("还原升级前数据失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "还原升级前数据失败",
+      });
+    } finally {
+      setBusyText(null);
+    }
+  };
+
+  const confirmMigrationRestore = () => {
+    Alert.alert("还原升级前数据", "升级之后添加或修改的图片和标签都将丢失，此操作不可恢复", [
+      { text: "取消", style: "cancel" },
+      { text: "还原", style: "destructive", onPress: runMigrationRestore },
+    ]);
+  };
+
+  const confirmReplace = () => {
+    Alert.alert("替换当前数据", "当前的图片和标签将被备份内容完全替换，此操作不可恢复", [
+      { text: "取消", style: "cancel" },
+      { text: "替换", style: "destructive", onPress: () => runRestore("replace") },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <AntDesign name="arrowleft" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>备份与恢复</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>创建备份</Text>
+        <Text style={styles.description}>
+          将 {images.length} 张图片、{tagGroups.length} 个标签分组打包为一个压缩包
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, !!busyText && styles.disabled]}
+          onPress={handleCreateBackup}
+          disabled={!!busyText}>
+          <AntDesign name="save" size={20} color="white" />
+          <Text style={styles.buttonText}>创建备份</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>从备份恢复</Text>
+        {pendingBackup ? (
+          <>
+            <View style={styles.summary}>
+              <Text style={styles.summaryText}>
+                备份时间：{formatDate(new Date(pendingBackup.createdAt), "YYYY-MM-DD HH:mm")}
+              </Text>
+              <Text style={styles.summaryText}>
+                {pendingBackup.images.length} 张图片 · {pendingBackup.tagGroups.length} 个分组
+              </Text>
+              {pendingBackup.missingFiles > 0 && (
+                <Text style={styles.warningText}>
+                  有 {pendingBackup.missingFiles} 张图片的文件不在压缩包中，将被跳过
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity
+              style={[styles.button, styles.dangerButton, !!busyText && styles.disabled]}
+              onPress={confirmReplace}
+              disabled={!!busyText}>
+              <AntDesign name="swap" size={20} color="white" />
+              <Text style={styles.buttonText}>替换当前数据</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, !!busyText && styles.disabled]}
+              onPress={() => runRestore("merge")}
+              disabled={!!busyText}>
+              <AntDesign name="plus" size={20} color="white" />
+              <Text style={styles.buttonText}>合并到当前数据</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={cancelRestore}
+              disabled={!!busyText}>
+              <Text style={styles.cancelText}>取消</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.description}>
+              选择之前创建的备份文件，可替换当前数据或与当前数据合并
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, !!busyText && styles.disabled]}
+              onPress={handlePickBackup}
+              disabled={!!busyText}>
+              <AntDesign name="folder1" size={20} color="white" />
+              <Text style={styles.buttonText}>选择备份文件</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {migrationBackup && !pendingBackup && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>升级前的数据</Text>
+          <Text style={styles.description}>
+            应用升级于 {formatDate(new Date(migrationBackup.createdAt), "YYYY-MM-DD HH:mm")}
+            ，升级后数据有误时可以还原为当时的图片和标签
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, styles.dangerButton, !!busyText && styles.disabled]}
+            onPress={confirmMigrationRestore}
+            disabled={!!busyText}>
+            <AntDesign name="reload1" size={20} color="white" />
+            <Text style={styles.buttonText}>还原升级前的数据</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {busyText && <Text style={styles.busyText}>{busyText}</Text>}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "white",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  section: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginBottom: 8,
+    color: "#333",
+  },
+  description: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 12,
+  },
+  summary: {
+    backgroundColor: "#f5f5f5",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: "#333",
+    marginBottom: 4,
+  },
+  warningText: {
+    fontSize: 13,
+    color: "#FF9800",
+  },
+  button: {
+    backgroundColor: "#2196F3",
+    height: 50,
+    borderRadius: 25,
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: 10,
+    elevation: 5,
+  },
+  dangerButton: {
+    backgroundColor: "#ff4444",
+  },
+  disabled: {
+    backgroundColor: "#bdbdbd",
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  cancelButton: {
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  cancelText: {
+    color: "#777",
+    fontSize: 16,
+  },
+  busyText: {
+    textAlign: "center",
+    color: "#999",
+    marginTop: 16,
+  },
+});
+
+export default BackupScreen;
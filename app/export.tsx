@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, FlatList, Image } from "react-native";
+import { AntDesign } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+import { router, useLocalSearchParams } from "expo-router";
+import { getProjectGroups, getProjectImages } from "@/lib/projects";
+import { imageStore, projectStore, settingsStore, tagGroupStore } from "@/lib/storage";
+import {
+  TEMPLATE_VARIABLES,
+  createFileNameGenerator,
+  getTemplateErrors,
+} from "@/lib/fileNameTemplate";
+import { createExportJob, type ExportJob, type ExportMode } from "@/lib/exportJob";
+import { getExtension } from "@/lib/photoFiles";
+import { shareFile } from "@/lib/zipExport";
+import { useStore } from "@/hooks/useStore";
+import { useCurrentProject } from "@/hooks/useCurrentProject";
+import ExportProgress from "@/components/ExportProgress";
+
+const ExportScreen = () => {
+  // ids 为逗号分隔的图片 id，未传时导出当前项目的整个照片墙
+  const { ids } = useLocalSearchParams<{ ids?: string }>();
+  const allImages = useStore(imageStore);
+  const projects = useStore(projectStore);
+  const currentProject = useCurrentProject();
+  const allGroups = useStore(tagGroupStore);
+  // 模板中的 {group:名称} 只对应当前项目可用的分组
+  const tagGroups = useMemo(
+    () => getProjectGroups(allGroups, currentProject.id),
+    [allGroups, currentProject.id]
+  );
+  const settings = useStore(settingsStore);
+  const [template, setTemplate] = useState(settings.fileNameTemplate);
+  const [job, setJob] = useState<ExportJob | null>(null);
+  const jobRef = useRef(job);
+  jobRef.current = job;
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const loaded = await settingsStore.load();
+        setTemplate(loaded.fileNameTemplate);
+      } catch (error) {
+        console.error("加载导出设置失败:", error);
+      }
+    })();
+    // 离开页面时停止任务并清理临时文件
+    return () => {
+      jobRef.current?.dispose();
+    };
+  }, []);
+
+  const images = useMemo(() => {
+    if (!ids) return getProjectImages(allImages, projects, currentProject.id);
+    const idSet = new Set(ids.split(","));
+    return allImages.filter((img) => idSet.has(img.id));
+  }, [ids, allImages, projects, currentProject.id]);
+
+  const templateErrors = useMemo(
+    () => getTemplateErrors(template, tagGroups),
+    [template, tagGroups]
+  );
+
+  // 用当前照片墙实时预览导出后的文件名
+  const previewNames = useMemo(() => {
+    const generateFileName = createFileNameGenerator(template, tagGroups);
+    return images.map((img) => `${generateFileName(img)}.${getExtension(img.uri)}`);
+  }, [template, tagGroups, images]);
+
+  const insertVariable = (token: string) => {
+    setTemplate((current) =>
+      current && !current.endsWith("_") ? `${current}_${token}` : `${current}${token}`
+    );
+  };
+
+  // 校验并保存模板，模板有误时不允许导出
+  const saveTemplate = async () => {
+    if (templateErrors.length > 0) {
+      Toast.show({
+        type: "error",
+        text1: "模板错误",
+        text2: templateErrors[0],
+      });
+      return false;
+    }
+    await settingsStore.update((current) => ({ ...current, fileNameTemplate: template }));
+    return true;
+  };
+
+  const startExport = async (mode: ExportMode) => {
+    if (!(await saveTemplate())) return;
+
+    const exportJob = createExportJob({
+      mode,
+      images,
+      groups: tagGroups,
+      template,
+      albumName: currentProject.albumName,
+    });
+    setJob(exportJob);
+    await exportJob.run();
+    const state = exportJob.getState();
+    if (state.status === "finished" && state.failures.length === 0) {
+      Toast.show({
+        type: "success",
+        text1: "成功",
+        text2:
+          mode === "album"
+            ? `已成功导出 ${state.succeeded} 张图片到 ${currentProject.albumName} 相册`
+            : `已打包 ${state.succeeded} 张图片`,
+      });
+    }
+  };
+
+  const shareResult = async (uri: string) => {
+    try {
+      const shared = await shareFile(uri, "application/zip", "分享导出的压缩包");
+      if (!shared) {
+        Toast.show({
+          type: "info",
+          text1: "提示",
+          text2: "当前设备不支持分享，压缩包已保存在应用目录中",
+        });
+      }
+    } catch (err) {
+      console.error("分享失败:", err);
+    }
+  };
+
+  const closeJob = () => {
+    job?.dispose();
+    setJob(null);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <AntDesign name="arrowleft" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>{ids ? `导出所选（${images.length} 张）` : "导出图片"}</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <View style={styles.templateSection}>
+        <Text style={styles.sectionTitle}>文件名模板</Text>
+        <TextInput
+          style={styles.input}
+          value={template}
+          onChangeText={setTemplate}
+          placeholder="{time}_{tags}"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <View style={styles.variablesContainer}>
+          {TEMPLATE_VARIABLES.map((variable) => (
+            <TouchableOpacity
+              key={variable.token}
+              style={styles.variableChip}
+              onPress={() => insertVariable(variable.token)}>
+              <Text style={styles.variableToken}>{variable.token}</Text>
+              <Text style={styles.variableDescription}>{variable.description}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {templateErrors.map((error) => (
+          <Text key={error} style={styles.errorText}>
+            {error}
+          </Text>
+        ))}
+      </View>
+
+      <Text style={styles.previewTitle}>预览（共 {images.length} 张）</Text>
+      <FlatList
+        data={images}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.previewList}
+        renderItem={({ item, index }) => (
+          <View style={styles.previewItem}>
+            <Image source={{ uri: item.thumbnailUri ?? item.uri }} style={styles.previewImage} />
+            <Text style={styles.previewName} numberOfLines={2}>
+              {previewNames[index]}
+            </Text>
+          </View>
+        )}
+      />
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.exportButton} onPress={() => startExport("album")}>
+          <AntDesign name="picture" size={20} color="white" />
+          <Text style={styles.exportButtonText}>导出到相册</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.exportButton, styles.zipButton]}
+          onPress={() => startExport("zip")}>
+          <AntDesign name="file1" size={20} color="white" />
+          <Text style={styles.exportButtonText}>打包为 ZIP</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ExportProgress job={job} onShare={shareResult} onClose={closeJob} />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "white",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  templateSection: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginBottom: 10,
+    color: "#333",
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: "#fafafa",
+  },
+  variablesContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 10,
+  },
+  variableChip: {
+    backgroundColor: "#f1f3f5",
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 6,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: "#e9ecef",
+    alignItems: "center",
+  },
+  variableToken: {
+    color: "#1976D2",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  variableDescription: {
+    color: "#888",
+    fontSize: 11,
+  },
+  errorText: {
+    color: "#ff4444",
+    fontSize: 13,
+    marginTop: 4,
+  },
+  previewTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 16,
+    marginHorizontal: 16,
+  },
+  previewList: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+  previewItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  previewImage: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    backgroundColor: "#f0f0f0",
+    marginRight: 12,
+  },
+  previewName: {
+    flex: 1,
+    fontSize: 14,
+    color: "#495057",
+  },
+  footer: {
+    flexDirection: "row",
+    position: "absolute",
+    bottom: 20,
+    left: 16,
+    right: 16,
+  },
+  exportButton: {
+    flex: 1,
+    backgroundColor: "#2196F3",
+    height: 50,
+    borderRadius: 25,
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    elevation: 5,
+  },
+  zipButton: {
+    marginLeft: 12,
+    backgroundColor: "#4CAF50",
+  },
+  exportButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+});
+
+export default ExportScreen;
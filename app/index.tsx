@@ -1,34 +1,130 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { View, StyleSheet, FlatList, TouchableOpacity, Image, Text, Alert } from "react-native";
 import * as ImagePicker from "expo-image-picker";
 import { AntDesign } from "@expo/vector-icons";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import TagModal from "@/components/TagModal";
-import * as FileSystem from "expo-file-system";
-import * as MediaLibrary from "expo-media-library";
+import FilterModal from "@/components/FilterModal";
+import ProjectModal from "@/components/ProjectModal";
+import CaptureSummaryModal from "@/components/CaptureSummaryModal";
 import { SafeAreaView } from "react-native-safe-area-context";
 import Toast from "react-native-toast-message";
 import { router } from "expo-router";
+import {
+  imageStore,
+  projectStore,
+  settingsStore,
+  tagGroupStore,
+  tagPresetStore,
+} from "@/lib/storage";
+import { isFilterActive, EMPTY_FILTER } from "@/lib/imageFilter";
+import { getRuleViolations } from "@/lib/groupRules";
+import { getProjectGroups, getProjectImages } from "@/lib/projects";
+import { checkPhotoFiles, createThumbnail, persistPhoto, readCaptureTime } from "@/lib/photoFiles";
+import { moveToTrash, purgeExpiredTrash, restoreFromTrash } from "@/lib/trash";
+import { recordOperation, undo } from "@/lib/history";
+import { addTags, updateImagesTags } from "@/lib/tags";
+import { createTimeTag, toDateKey } from "@/lib/timeTags";
+import type { ImageFilter, ImageItem, Tag, TimeTagFormat } from "@/lib/types";
+import { useStore } from "@/hooks/useStore";
+import { useCurrentProject } from "@/hooks/useCurrentProject";
+import { useWallImages } from "@/hooks/useWallImages";
+import { useUndoable } from "@/hooks/useUndoable";
+
+// 照片墙每格高度固定，FlatList 无需测量即可计算滚动位置
+const GRID_PADDING = 10;
+const IMAGE_HEIGHT = 150;
+const TAG_AREA_HEIGHT = 60;
+const CELL_MARGIN = 5;
+const ROW_HEIGHT = IMAGE_HEIGHT + TAG_AREA_HEIGHT + CELL_MARGIN * 2;
+
+// 选择连拍标签时还没有图片，固定引用避免标签弹窗每次渲染都重置
+const NO_IMAGES: ImageItem[] = [];
+
+// 相册照片优先使用 assetId，部分 Android 设备不返回时退回到文件名与大小
+const getSourceId = (asset: ImagePicker.ImagePickerAsset) =>
+  asset.assetId ?? (asset.fileName ? `${asset.fileName}:${asset.fileSize ?? ""}` : asset.uri);
+
+// 新图片按拍摄日期自动带上时间标签
+const createCapturedImage = async (
+  asset: ImagePicker.ImagePickerAsset,
+  id: string,
+  format: TimeTagFormat,
+  projectId: string
+): Promise<ImageItem> => {
+  const capturedAt = await readCaptureTime(asset);
+  const start = toDateKey(new Date(capturedAt), "day");
+  const uri = await persistPhoto(asset.uri, id);
+  return {
+    id,
+    uri,
+    thumbnailUri: await createThumbnail(uri, id),
+    tags: [createTimeTag({ granularity: "day", start }, format)],
+    createdAt: Date.now(),
+    capturedAt,
+    projectId,
+  };
+};
 
-const MAX_IMAGES = 80;
-
-interface Tag {
-  id: string;
-  name: string;
-  groupId?: string;
-  isTimeTag?: boolean;
-}
+// 启动时检查图片文件，修复路径变化或标记已丢失的图片
+const repairImageFiles = async (loaded: ImageItem[]) => {
+  const changes = await checkPhotoFiles(loaded);
+  if (changes.size === 0) return;
 
-interface ImageItem {
-  id: string;
-  uri: string;
-  tags: Tag[];
-}
+  const updated = await imageStore.update((current) =>
+    current.map((img) => (changes.has(img.id) ? { ...img, ...changes.get(img.id) } : img))
+  );
+  const missingCount = updated.filter((img) => img.missing).length;
+  if (missingCount > 0) {
+    Toast.show({
+      type: "error",
+      text1: "图片文件丢失",
+      text2: `有 ${missingCount} 张图片的文件已丢失，请删除后重新添加`,
+    });
+  }
+};
 
 const HomeScreen = () => {
-  const [images, setImages] = useState<ImageItem[]>([]);
+  const currentProject = useCurrentProject();
+  const undoable = useUndoable();
+  // 照片墙只显示当前项目的图片与可用的分组
+  const { images, visibleImages } = useWallImages();
   const [isTagModalVisible, setTagModalVisible] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<ImageItem | null>(null);
+  // 正在编辑标签的图片，多于一张时为批量模式
+  const [taggingImages, setTaggingImages] = useState<ImageItem[]>([]);
+  // 非空时处于多选模式
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  const [isFilterModalVisible, setFilterModalVisible] = useState(false);
+  const [isProjectModalVisible, setProjectModalVisible] = useState(false);
+  const [isCaptureSetupVisible, setCaptureSetupVisible] = useState(false);
+  // 连拍前选好的标签，等标签弹窗关闭后再打开相机
+  const pendingCaptureTags = useRef<Tag[] | null>(null);
+  // 最近一次连拍的图片与添加的标签，供连拍小结使用
+  const [captureSession, setCaptureSession] = useState<{ ids: string[]; tags: Tag[] }>({
+    ids: [],
+    tags: [],
+  });
+  const [isCaptureSummaryVisible, setCaptureSummaryVisible] = useState(false);
+  const allGroups = useStore(tagGroupStore);
+  const tagGroups = useMemo(
+    () => getProjectGroups(allGroups, currentProject.id),
+    [allGroups, currentProject.id]
+  );
+  const { wallFilter, timeTagFormat } = useStore(settingsStore);
+  const filterActive = isFilterActive(wallFilter);
+  // 不符合分组规则的图片 id 与第一条原因
+  const ruleViolations = useMemo(() => {
+    const violations = new Map<string, string>();
+    images.forEach((img) => {
+      const [first] = getRuleViolations(img.tags, tagGroups);
+      if (first) violations.set(img.id, first.message);
+    });
+    return violations;
+  }, [images, tagGroups]);
+
+  // 切换项目时退出多选
+  useEffect(() => {
+    setSelectedIds(null);
+  }, [currentProject.id]);
 
   useEffect(() => {
     (async () => {
@@ -50,14 +146,16 @@ const HomeScreen = () => {
       }
     })();
     loadImages();
+    purgeExpiredTrash().catch((error) => console.error("清理最近删除失败:", error));
+    settingsStore.load().catch((error) => console.error("加载设置失败:", error));
+    projectStore.load().catch((error) => console.error("加载项目失败:", error));
+    tagPresetStore.load().catch((error) => console.error("加载标签预设失败:", error));
   }, []);
 
   const loadImages = async () => {
     try {
-      const savedImages = await AsyncStorage.getItem("images");
-      if (savedImages) {
-        setImages(JSON.parse(savedImages));
-      }
+      const loaded = await imageStore.load();
+      await repairImageFiles(loaded);
     } catch (error) {
       console.error("加载图片失败:", error);
       Toast.show({
@@ -69,189 +167,162 @@ const HomeScreen = () => {
   };
 
   const takePhoto = async () => {
-    if (images.length >= MAX_IMAGES) {
-      Toast.show({
-        type: "info",
-        text1: "已达上限",
-        text2: `最多只能添加${MAX_IMAGES}张图片`,
-      });
-      return;
-    }
-
     const result = await ImagePicker.launchCameraAsync({
       quality: 1,
+      exif: true,
     });
 
     if (!result.canceled) {
-      const newImage: ImageItem = {
-        id: Date.now().toString(),
-        uri: result.assets[0].uri,
-        tags: [],
-      };
-      const updatedImages = [...images, newImage];
-      setImages(updatedImages);
-      await AsyncStorage.setItem("images", JSON.stringify(updatedImages));
-    }
-  };
-
-  const openTagModal = (image: ImageItem) => {
-    setSelectedImage(image);
-    setTagModalVisible(true);
-  };
-
-  const updateImageTags = async (imageId: string, tags: Tag[]) => {
-    const updatedImages = images.map((img) => (img.id === imageId ? { ...img, tags } : img));
-    setImages(updatedImages);
-    await AsyncStorage.setItem("images", JSON.stringify(updatedImages));
-  };
-
-  const generateUniqueFileName = (tags: Tag[], usedNames: Set<string>) => {
-    // 如果没有标签，使用时间戳
-    if (!tags || tags.length === 0) {
-      return `image_${Date.now()}`;
-    }
-
-    // 使用标签名称生成基础文件名
-    const baseFileName = tags.map((tag) => tag.name).join("_");
-    let fileName = baseFileName;
-    let counter = 1;
-
-    // 如果文件名重复，添加数字后缀
-    while (usedNames.has(fileName)) {
-      fileName = `${baseFileName}_${counter}`;
-      counter++;
+      const id = Date.now().toString();
+      try {
+        const newImage = await createCapturedImage(
+          result.assets[0],
+          id,
+          timeTagFormat,
+          currentProject.id
+        );
+        await imageStore.update((current) => [...current, newImage]);
+      } catch (error) {
+        console.error("保存图片失败:", error);
+        Toast.show({
+          type: "error",
+          text1: "错误",
+          text2: "保存图片失败",
+        });
+      }
     }
-
-    usedNames.add(fileName);
-    return fileName;
   };
 
-  const exportImages = async () => {
-    try {
-      if (images.length === 0) {
+  // 连拍：每张照片自动带上选好的标签，拍完一张立即重新打开相机，取消拍摄时结束
+  const runCaptureSession = async (stickyTags: Tag[]) => {
+    const ids: string[] = [];
+    for (;;) {
+      let result: ImagePicker.ImagePickerResult;
+      try {
+        result = await ImagePicker.launchCameraAsync({
+          quality: 1,
+          exif: true,
+        });
+      } catch (error) {
+        // 相机出错时结束连拍，已拍的照片照常进入汇总
+        console.error("打开相机失败:", error);
         Toast.show({
-          type: "info",
-          text1: "提示",
-          text2: "没有可导出的图片",
+          type: "error",
+          text1: "错误",
+          text2: "打开相机失败",
         });
-        return;
+        break;
       }
-
-      // 请求相册权限
-      const perm = await MediaLibrary.requestPermissionsAsync();
-      if (!perm.granted) {
+      if (result.canceled) break;
+
+      const id = Date.now().toString();
+      try {
+        const captured = await createCapturedImage(
+          result.assets[0],
+          id,
+          timeTagFormat,
+          currentProject.id
+        );
+        const newImage = { ...captured, tags: addTags(captured.tags, stickyTags, tagGroups) };
+        await imageStore.update((current) => [...current, newImage]);
+        ids.push(id);
+      } catch (error) {
+        console.error("保存图片失败:", error);
         Toast.show({
           type: "error",
-          text1: "权限错误",
-          text2: "需要相册访问权限才能保存文件",
+          text1: "错误",
+          text2: "保存图片失败",
         });
-        return;
       }
+    }
 
-      // 设置批处理参数
-      const BATCH_SIZE = 10; // 每批处理的图片数量
-      const totalBatches = Math.ceil(images.length / BATCH_SIZE);
-      let processedCount = 0;
-
-      // 显示进度提示
-      Toast.show({
-        type: "info",
-        text1: "导出开始",
-        text2: `正在导出 ${images.length} 张图片，请稍候...`,
-      });
-
-      // 用于跟踪已使用的文件名
-      const usedNames = new Set<string>();
-
-      // 创建或获取相册
-      let picTagingAlbum = await MediaLibrary.getAlbumAsync("picTaging");
-      if (!picTagingAlbum) {
-        try {
-          // 先创建一个临时文件用于创建相册
-          const tempFile = `${FileSystem.cacheDirectory}album_init.jpg`;
-          await FileSystem.copyAsync({
-            from: images[0].uri,
-            to: tempFile,
-          });
-
-          const initialAsset = await MediaLibrary.createAssetAsync(tempFile);
-          picTagingAlbum = await MediaLibrary.createAlbumAsync("picTaging", initialAsset);
-
-          // 清理临时文件
-          await FileSystem.deleteAsync(tempFile, { idempotent: true });
-        } catch (err) {
-          console.error("创建相册失败:", err);
-          Toast.show({
-            type: "error",
-            text1: "错误",
-            text2: "创建相册失败",
-          });
-          return;
-        }
-      }
+    if (ids.length === 0) return;
+    setCaptureSession({ ids, tags: stickyTags });
+    setCaptureSummaryVisible(true);
+  };
 
-      // 分批处理图片
-      for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-        const startIndex = batchIndex * BATCH_SIZE;
-        const endIndex = Math.min(startIndex + BATCH_SIZE, images.length);
-        const batchImages = images.slice(startIndex, endIndex);
-
-        // 处理当前批次的图片
-        const batchAssets = [];
-        for (const img of batchImages) {
-          try {
-            // 生成唯一的文件名
-            const fileName = generateUniqueFileName(img.tags, usedNames);
-            // 创建临时文件
-            const tempFile = `${FileSystem.cacheDirectory}${fileName}.jpg`;
-            await FileSystem.copyAsync({
-              from: img.uri,
-              to: tempFile,
-            });
-            const asset = await MediaLibrary.createAssetAsync(tempFile);
-            if (asset) {
-              batchAssets.push(asset);
-            }
-            // 清理临时文件
-            await FileSystem.deleteAsync(tempFile, { idempotent: true });
-
-            processedCount++;
-          } catch (err) {
-            console.warn(`创建资产失败: ${img.uri}`, err);
-            continue;
-          }
-        }
+  const startCaptureSession = () => {
+    const tags = pendingCaptureTags.current;
+    pendingCaptureTags.current = null;
+    if (tags) runCaptureSession(tags);
+  };
 
-        // 将当前批次资产添加到相册
-        if (batchAssets.length > 0) {
-          try {
-            await MediaLibrary.addAssetsToAlbumAsync(batchAssets, picTagingAlbum, false);
-          } catch (err) {
-            console.error("添加资产到相册失败:", err);
-          }
-        }
+  // 连拍结束后可为整批图片统一调整标签
+  const adjustCaptureTags = () => {
+    const ids = new Set(captureSession.ids);
+    const sessionImages = imageStore.get().filter((img) => ids.has(img.id));
+    if (sessionImages.length > 0) openTagModal(sessionImages);
+  };
 
-        // 更新进度提示
-        if (batchIndex < totalBatches - 1) {
-          console.log(`导出进度: ${processedCount}/${images.length}`);
-        }
+  const importFromGallery = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      allowsMultipleSelection: true,
+      // 0 表示不限制选择数量
+      selectionLimit: 0,
+      quality: 1,
+      exif: true,
+    });
+    if (result.canceled) return;
+
+    // 同一张照片可以分别加入不同的项目
+    const existing = new Set(
+      getProjectImages(imageStore.get(), projectStore.get(), currentProject.id).map(
+        (img) => img.sourceId
+      )
+    );
+    const freshAssets = result.assets.filter((asset) => {
+      const sourceId = getSourceId(asset);
+      if (existing.has(sourceId)) return false;
+      existing.add(sourceId);
+      return true;
+    });
+    const duplicateCount = result.assets.length - freshAssets.length;
+
+    const now = Date.now();
+    const added: ImageItem[] = [];
+    for (const [index, asset] of freshAssets.entries()) {
+      const id = `${now}-${index}`;
+      try {
+        added.push({
+          ...(await createCapturedImage(asset, id, timeTagFormat, currentProject.id)),
+          createdAt: now,
+          sourceId: getSourceId(asset),
+        });
+      } catch (error) {
+        console.warn(`导入图片失败: ${asset.uri}`, error);
       }
+    }
+    await imageStore.update((current) => [...current, ...added]);
 
+    if (added.length === 0) {
       Toast.show({
-        type: "success",
-        text1: "成功",
-        text2: `已成功导出 ${processedCount} 张图片到 picTaging 相册`,
-      });
-    } catch (err) {
-      console.error("导出过程失败:", err);
-      Toast.show({
-        type: "error",
-        text1: "错误",
-        text2: "导出失败，请重试",
+        type: "info",
+        text1: "提示",
+        text2: duplicateCount > 0 ? "所选图片已在照片墙中" : "没有导入任何图片",
       });
+      return;
+    }
+
+    Toast.show({
+      type: "success",
+      text1: "导入成功",
+      text2:
+        duplicateCount > 0
+          ? `已导入 ${added.length} 张图片，跳过 ${duplicateCount} 张重复图片`
+          : `已导入 ${added.length} 张图片`,
+    });
+    // 只导入一张时直接进入标签编辑
+    if (added.length === 1) {
+      openTagModal(added);
     }
   };
 
+  const openTagModal = (targets: ImageItem[]) => {
+    setTaggingImages(targets);
+    setTagModalVisible(true);
+  };
+
   const clearAllImages = () => {
     if (images.length === 0) {
       Toast.show({
@@ -262,68 +333,217 @@ const HomeScreen = () => {
       return;
     }
 
-    Alert.alert("清空列表", "确定要删除所有图片吗？此操作不可恢复", [
+    Alert.alert("清空列表", "确定要删除所有图片吗？图片会移到最近删除中，可在保留期内恢复", [
       { text: "取消" },
       {
         text: "确定",
-        onPress: async () => {
-          setImages([]);
-          await AsyncStorage.setItem("images", JSON.stringify([]));
-          Toast.show({
-            type: "success",
-            text1: "成功",
-            text2: "已清空所有图片",
-          });
-        },
+        onPress: () => trashImages(images.map((img) => img.id)),
       },
     ]);
   };
 
-  const deleteImage = (imageId: string) => {
-    Alert.alert("删除图片", "确定要删除这张图片吗？", [
-      { text: "取消" },
-      {
-        text: "确定",
-        onPress: async () => {
-          const updatedImages = images.filter((img) => img.id !== imageId);
-          setImages(updatedImages);
-          await AsyncStorage.setItem("images", JSON.stringify(updatedImages));
-        },
-      },
-    ]);
+  // 删除的图片进入最近删除，并可通过提示撤销
+  const trashImages = async (imageIds: string[]) => {
+    try {
+      const count = await moveToTrash(imageIds);
+      recordOperation({
+        description: `${count} 张图片`,
+        undo: () => restoreFromTrash(imageIds),
+        redo: () => moveToTrash(imageIds),
+      });
+    } catch (error) {
+      console.error("删除图片失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "删除图片失败",
+      });
+    }
+  };
+
+  const deleteImage = (imageId: string) => trashImages([imageId]);
+
+  const openViewer = (imageId: string) => {
+    router.push({ pathname: "/viewer", params: { id: imageId } } as any);
   };
 
   const navigateToTagManagement = () => {
     router.push("/tag-management" as any);
   };
 
-  const renderItem = ({ item }: { item: ImageItem }) => (
-    <View style={styles.imageContainer}>
-      <TouchableOpacity style={styles.imageWrapper} onPress={() => openTagModal(item)}>
-        <Image source={{ uri: item.uri }} style={styles.image} />
-        <View style={styles.tagContainer}>
-          {item.tags.map((tag, index) => (
-            <Text key={index} style={styles.tag}>
-              {tag.name}
-            </Text>
-          ))}
-        </View>
-      </TouchableOpacity>
-      <TouchableOpacity style={styles.deleteButton} onPress={() => deleteImage(item.id)}>
-        <AntDesign name="delete" size={20} color="#ff4444" />
-      </TouchableOpacity>
-    </View>
-  );
+  // 不传 ids 时导出整个照片墙
+  const navigateToExport = (ids?: string[]) => {
+    if ((ids ?? images).length === 0) {
+      Toast.show({
+        type: "info",
+        text1: "提示",
+        text2: "没有可导出的图片",
+      });
+      return;
+    }
+    router.push({ pathname: "/export", params: ids ? { ids: ids.join(",") } : {} } as any);
+  };
 
-  return (
-    <SafeAreaView style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.titleText}>照片墙</Text>
-        <TouchableOpacity style={styles.tagManageButton} onPress={navigateToTagManagement}>
-          <AntDesign name="tags" size={22} color="#2196F3" />
-          <Text style={styles.tagManageText}>标签管理</Text>
+  const updateFilter = async (filter: ImageFilter) => {
+    await settingsStore.update((current) => ({ ...current, wallFilter: filter }));
+  };
+
+  const toggleSelection = (imageId: string) => {
+    setSelectedIds((current) => {
+      const ids = current ?? [];
+      return ids.includes(imageId) ? ids.filter((id) => id !== imageId) : [...ids, imageId];
+    });
+  };
+
+  const tagSelected = () => {
+    if (!selectedIds) return;
+    openTagModal(images.filter((img) => selectedIds.includes(img.id)));
+  };
+
+  const exportSelected = () => {
+    if (!selectedIds) return;
+    navigateToExport(selectedIds);
+    setSelectedIds(null);
+  };
+
+  const renderItem = ({ item }: { item: ImageItem }) => {
+    const isSelected = !!selectedIds?.includes(item.id);
+    return (
+      <View style={styles.imageContainer}>
+        <TouchableOpacity
+          style={styles.imageWrapper}
+          onPress={() => (selectedIds ? toggleSelection(item.id) : openViewer(item.id))}
+          onLongPress={() => !selectedIds && setSelectedIds([item.id])}>
+          <Image source={{ uri: item.thumbnailUri ?? item.uri }} style={styles.image} />
+          {item.missing && (
+            <View style={styles.missingOverlay}>
+              <AntDesign name="warning" size={24} color="#ff4444" />
+              <Text style={styles.missingText}>文件已丢失</Text>
+            </View>
+          )}
+          <View style={styles.tagContainer}>
+            {item.tags.map((tag, index) => (
+              <Text key={index} style={styles.tag}>
+                {tag.name}
+              </Text>
+            ))}
+          </View>
+          {ruleViolations.has(item.id) && (
+            <View style={styles.ruleBadge}>
+              <AntDesign name="warning" size={12} color="white" />
+              <Text style={styles.ruleBadgeText} numberOfLines={1}>
+                {ruleViolations.get(item.id)}
+              </Text>
+            </View>
+          )}
+          {isSelected && <View style={styles.selectedOverlay} />}
         </TouchableOpacity>
+        {selectedIds ? (
+          <View style={styles.selectionIndicator} pointerEvents="none">
+            <AntDesign
+              name={isSelected ? "checkcircle" : "checkcircleo"}
+              size={22}
+              color={isSelected ? "#2196F3" : "white"}
+            />
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.deleteButton} onPress={() => deleteImage(item.id)}>
+            <AntDesign name="delete" size={20} color="#ff4444" />
+          </TouchableOpacity>
+        )}
       </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {selectedIds ? (
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.tagManageButton} onPress={() => setSelectedIds(null)}>
+            <AntDesign name="close" size={22} color="#333" />
+          </TouchableOpacity>
+          <Text style={styles.titleText}>已选择 {selectedIds.length} 张</Text>
+          <TouchableOpacity
+            style={styles.tagManageButton}
+            onPress={() =>
+              setSelectedIds(
+                selectedIds.length === visibleImages.length
+                  ? []
+                  : visibleImages.map((img) => img.id)
+              )
+            }>
+            <Text style={styles.tagManageText}>
+              {selectedIds.length === visibleImages.length ? "全不选" : "全选"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.projectSwitcher}
+            onPress={() => setProjectModalVisible(true)}>
+            <Text style={styles.titleText} numberOfLines={1}>
+              {currentProject.name}
+            </Text>
+            <AntDesign name="down" size={14} color="#333" />
+          </TouchableOpacity>
+          <View style={styles.headerButtons}>
+            {undoable && (
+              // 撤销提示消失后，仍可在这里逐条撤销最近的删除
+              <TouchableOpacity style={styles.tagManageButton} onPress={undo}>
+                <AntDesign name="back" size={22} color="#2196F3" />
+                <Text style={styles.tagManageText}>撤销</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.tagManageButton}
+              onPress={() => router.push("/backup" as any)}>
+              <AntDesign name="save" size={22} color="#2196F3" />
+              <Text style={styles.tagManageText}>备份</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.tagManageButton}
+              onPress={() => router.push("/trash" as any)}>
+              <AntDesign name="delete" size={22} color="#2196F3" />
+              <Text style={styles.tagManageText}>最近删除</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.tagManageButton} onPress={navigateToTagManagement}>
+              <AntDesign name="tags" size={22} color="#2196F3" />
+              <Text style={styles.tagManageText}>标签管理</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {images.length > 0 && (
+        <View style={styles.filterBar}>
+          <TouchableOpacity
+            style={[styles.filterButton, filterActive && styles.filterButtonActive]}
+            onPress={() => setFilterModalVisible(true)}>
+            <AntDesign name="filter" size={16} color={filterActive ? "white" : "#2196F3"} />
+            <Text style={[styles.filterButtonText, filterActive && styles.filterButtonTextActive]}>
+              筛选
+            </Text>
+          </TouchableOpacity>
+          {filterActive && (
+            <>
+              <Text style={styles.filterSummary}>
+                显示 {visibleImages.length} / {images.length} 张
+              </Text>
+              <TouchableOpacity
+                style={styles.filterAction}
+                onPress={() => navigateToExport(visibleImages.map((img) => img.id))}>
+                <Text style={styles.filterActionText}>导出筛选结果</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.filterAction}
+                onPress={() => updateFilter(EMPTY_FILTER)}>
+                <AntDesign name="close" size={16} color="#777" />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      )}
 
       {!images.length && (
         <View style={styles.emptyContainer}>
@@ -332,34 +552,110 @@ const HomeScreen = () => {
         </View>
       )}
 
+      {images.length > 0 && !visibleImages.length && (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>没有符合筛选条件的图片</Text>
+        </View>
+      )}
+
       <FlatList
-        data={images}
+        data={visibleImages}
         renderItem={renderItem}
         keyExtractor={(item) => item.id}
         numColumns={2}
         contentContainerStyle={styles.list}
+        extraData={selectedIds}
+        // 带 numColumns 时 index 是行号
+        getItemLayout={(_, index) => ({
+          length: ROW_HEIGHT,
+          offset: GRID_PADDING + ROW_HEIGHT * index,
+          index,
+        })}
+        initialNumToRender={8}
+        maxToRenderPerBatch={8}
+        windowSize={7}
+        removeClippedSubviews
       />
 
-      <View style={styles.buttonContainer}>
-        <TouchableOpacity style={styles.button} onPress={takePhoto}>
-          <AntDesign name="camera" size={24} color="white" />
-        </TouchableOpacity>
-        <TouchableOpacity style={styles.button} onPress={exportImages}>
-          <AntDesign name="export" size={24} color="white" />
-        </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.button, { backgroundColor: "#ff4444" }]}
-          onPress={clearAllImages}>
-          <AntDesign name="delete" size={24} color="white" />
-        </TouchableOpacity>
-      </View>
+      {selectedIds ? (
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, styles.wideButton, !selectedIds.length && styles.disabled]}
+            onPress={tagSelected}
+            disabled={!selectedIds.length}>
+            <AntDesign name="tags" size={20} color="white" />
+            <Text style={styles.wideButtonText}>批量标签</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.wideButton, !selectedIds.length && styles.disabled]}
+            onPress={exportSelected}
+            disabled={!selectedIds.length}>
+            <AntDesign name="export" size={20} color="white" />
+            <Text style={styles.wideButtonText}>导出所选</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={styles.button} onPress={takePhoto}>
+            <AntDesign name="camera" size={24} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={() => setCaptureSetupVisible(true)}>
+            <AntDesign name="pushpin" size={24} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={importFromGallery}>
+            <AntDesign name="picture" size={24} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.button} onPress={() => navigateToExport()}>
+            <AntDesign name="export" size={24} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: "#ff4444" }]}
+            onPress={clearAllImages}>
+            <AntDesign name="delete" size={24} color="white" />
+          </TouchableOpacity>
+        </View>
+      )}
 
       <TagModal
         visible={isTagModalVisible}
         onClose={() => setTagModalVisible(false)}
-        image={selectedImage}
-        onUpdateTags={(tags) => updateImageTags(selectedImage?.id || "", tags)}
+        images={taggingImages}
+        onUpdateTags={(update) =>
+          updateImagesTags(
+            taggingImages.map((img) => img.id),
+            update
+          )
+        }
+      />
+
+      <TagModal
+        visible={isCaptureSetupVisible}
+        onClose={() => setCaptureSetupVisible(false)}
+        images={NO_IMAGES}
+        title="连拍：选择每张照片自动添加的标签"
+        onUpdateTags={(update) => {
+          pendingCaptureTags.current = update([]);
+        }}
+        onModalHide={startCaptureSession}
+      />
+
+      <CaptureSummaryModal
+        visible={isCaptureSummaryVisible}
+        images={images.filter((img) => captureSession.ids.includes(img.id))}
+        tags={captureSession.tags}
+        onClose={() => setCaptureSummaryVisible(false)}
+        onAdjustTags={adjustCaptureTags}
+      />
+
+      <FilterModal
+        visible={isFilterModalVisible}
+        onClose={() => setFilterModalVisible(false)}
+        filter={wallFilter}
+        tagGroups={tagGroups}
+        onApply={updateFilter}
       />
+
+      <ProjectModal visible={isProjectModalVisible} onClose={() => setProjectModalVisible(false)} />
     </SafeAreaView>
   );
 };
@@ -383,6 +679,16 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#333",
   },
+  projectSwitcher: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexShrink: 1,
+    gap: 4,
+    marginRight: 8,
+  },
+  headerButtons: {
+    flexDirection: "row",
+  },
   tagManageButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -393,6 +699,50 @@ const styles = StyleSheet.create({
     color: "#2196F3",
     fontWeight: "500",
   },
+  filterBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  filterButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#2196F3",
+    borderRadius: 16,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+  },
+  filterButtonActive: {
+    backgroundColor: "#2196F3",
+  },
+  filterButtonText: {
+    marginLeft: 4,
+    color: "#2196F3",
+    fontSize: 14,
+  },
+  filterButtonTextActive: {
+    color: "white",
+    fontWeight: "600",
+  },
+  filterSummary: {
+    flex: 1,
+    marginLeft: 12,
+    fontSize: 13,
+    color: "#666",
+  },
+  filterAction: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  filterActionText: {
+    color: "#2196F3",
+    fontSize: 13,
+    fontWeight: "500",
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: "center",
@@ -408,11 +758,11 @@ const styles = StyleSheet.create({
     color: "#aaa",
   },
   list: {
-    padding: 10,
+    padding: GRID_PADDING,
   },
   imageContainer: {
     flex: 1,
-    margin: 5,
+    margin: CELL_MARGIN,
     borderRadius: 10,
     backgroundColor: "#f0f0f0",
     position: "relative",
@@ -432,11 +782,62 @@ const styles = StyleSheet.create({
   },
   image: {
     width: "100%",
-    height: 150,
+    height: IMAGE_HEIGHT,
+  },
+  missingOverlay: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    height: IMAGE_HEIGHT,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f5f5f5",
+  },
+  missingText: {
+    marginTop: 6,
+    fontSize: 13,
+    color: "#ff4444",
+  },
+  selectedOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(33, 150, 243, 0.2)",
+    borderWidth: 3,
+    borderColor: "#2196F3",
+    borderRadius: 10,
+  },
+  ruleBadge: {
+    position: "absolute",
+    top: 10,
+    left: 10,
+    maxWidth: "70%",
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "rgba(255, 152, 0, 0.9)",
+    borderRadius: 10,
+    paddingVertical: 2,
+    paddingHorizontal: 6,
   },
+  ruleBadgeText: {
+    flexShrink: 1,
+    color: "white",
+    fontSize: 11,
+    marginLeft: 4,
+  },
+  selectionIndicator: {
+    position: "absolute",
+    top: 10,
+    right: 10,
+    backgroundColor: "rgba(0, 0, 0, 0.2)",
+    borderRadius: 12,
+    zIndex: 1,
+  },
+  // 标签超出两行时截断，保持每格高度一致
   tagContainer: {
     flexDirection: "row",
     flexWrap: "wrap",
+    height: TAG_AREA_HEIGHT,
+    overflow: "hidden",
     padding: 5,
   },
   tag: {
@@ -462,6 +863,20 @@ const styles = StyleSheet.create({
     marginLeft: 10,
     elevation: 5,
   },
+  wideButton: {
+    width: undefined,
+    flexDirection: "row",
+    paddingHorizontal: 20,
+  },
+  wideButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  disabled: {
+    backgroundColor: "#bdbdbd",
+  },
 });
 
 export default HomeScreen;
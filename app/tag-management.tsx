@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   View,
   Text,
@@ -8,30 +8,64 @@ import {
   ScrollView,
   Alert,
 } from "react-native";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { AntDesign } from "@expo/vector-icons";
 import { SafeAreaView } from "react-native-safe-area-context";
 import Toast from "react-native-toast-message";
 import { router } from "expo-router";
+import { imageStore, settingsStore, tagGroupStore } from "@/lib/storage";
+import {
+  countImagesWithTags,
+  editTag,
+  isDuplicateGroupName,
+  isDuplicateTagName,
+  renameGroup,
+  reorderGroups,
+  reorderTags,
+  restoreTagGroups,
+  updateTagGroups,
+} from "@/lib/tags";
+import { recordOperation } from "@/lib/history";
+import { describeGroupRules, getGroupRules, setGroupRules } from "@/lib/groupRules";
+import { getProjectGroups } from "@/lib/projects";
+import {
+  exportLibraryFile,
+  mergeLibrary,
+  pickLibraryFile,
+  type LibraryFormat,
+} from "@/lib/tagLibrary";
+import { reformatTimeTags } from "@/lib/timeTags";
+import type { TagGroup, TagGroupRules, TimeTagFormat } from "@/lib/types";
+import { useStore } from "@/hooks/useStore";
+import { useCurrentProject } from "@/hooks/useCurrentProject";
+import TagEditModal from "@/components/TagEditModal";
+import TimeTagFormatModal from "@/components/TimeTagFormatModal";
+import GroupRulesModal from "@/components/GroupRulesModal";
+import TagOrderList from "@/components/TagOrderList";
+import TagLibraryModal from "@/components/TagLibraryModal";
+import TagPresetModal from "@/components/TagPresetModal";
 
-interface Tag {
-  id: string;
-  name: string;
-  groupId?: string;
-  isTimeTag?: boolean;
-}
-
-interface TagGroup {
-  id: string;
-  name: string;
-  tags: Tag[];
-}
+type EditTarget =
+  { type: "group"; groupId: string } | { type: "tag"; groupId: string; tagId: string };
 
 const TagManagementScreen = () => {
-  const [tagGroups, setTagGroups] = useState<TagGroup[]>([]);
+  const allGroups = useStore(tagGroupStore);
+  const currentProject = useCurrentProject();
+  // 只管理共享分组与当前项目的专属分组
+  const tagGroups = useMemo(
+    () => getProjectGroups(allGroups, currentProject.id),
+    [allGroups, currentProject.id]
+  );
+  const { timeTagFormat } = useStore(settingsStore);
   const [newGroupName, setNewGroupName] = useState("");
+  const [isProjectOnly, setProjectOnly] = useState(false);
   const [newTagName, setNewTagName] = useState("");
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  const [isFormatModalVisible, setFormatModalVisible] = useState(false);
+  const [rulesGroupId, setRulesGroupId] = useState<string | null>(null);
+  const [isSorting, setSorting] = useState(false);
+  const [isLibraryModalVisible, setLibraryModalVisible] = useState(false);
+  const [isPresetModalVisible, setPresetModalVisible] = useState(false);
 
   useEffect(() => {
     loadTagGroups();
@@ -39,10 +73,7 @@ const TagManagementScreen = () => {
 
   const loadTagGroups = async () => {
     try {
-      const savedGroups = await AsyncStorage.getItem("tagGroups");
-      if (savedGroups) {
-        setTagGroups(JSON.parse(savedGroups));
-      }
+      await tagGroupStore.load();
     } catch (error) {
       console.error("加载标签组失败:", error);
       Toast.show({
@@ -53,10 +84,11 @@ const TagManagementScreen = () => {
     }
   };
 
-  const saveTagGroups = async (groups: TagGroup[]) => {
+  // 返回是否保存成功，失败时已提示
+  const saveTagGroups = async (updater: (groups: TagGroup[]) => TagGroup[]) => {
     try {
-      await AsyncStorage.setItem("tagGroups", JSON.stringify(groups));
-      setTagGroups(groups);
+      await updateTagGroups(updater);
+      return true;
     } catch (error) {
       console.error("保存标签组失败:", error);
       Toast.show({
@@ -64,18 +96,27 @@ const TagManagementScreen = () => {
         text1: "错误",
         text2: "保存标签组失败",
       });
+      return false;
     }
   };
 
   const addGroup = () => {
     if (!newGroupName.trim()) return;
+    if (isDuplicateGroupName(tagGroups, newGroupName)) {
+      Toast.show({
+        type: "error",
+        text1: "名称重复",
+        text2: `分组「${newGroupName.trim()}」已存在`,
+      });
+      return;
+    }
     const newGroup: TagGroup = {
       id: Date.now().toString(),
       name: newGroupName,
       tags: [],
+      ...(isProjectOnly ? { projectId: currentProject.id } : {}),
     };
-    const updatedGroups = [...tagGroups, newGroup];
-    saveTagGroups(updatedGroups);
+    saveTagGroups((groups) => [...groups, newGroup]);
     setNewGroupName("");
     Toast.show({
       type: "success",
@@ -86,22 +127,33 @@ const TagManagementScreen = () => {
 
   const addTag = () => {
     if (!newTagName.trim() || !selectedGroupId) return;
-    const updatedGroups = tagGroups.map((group) => {
-      if (group.id === selectedGroupId) {
-        return {
-          ...group,
-          tags: [
-            ...group.tags,
-            {
-              id: Date.now().toString(),
-              name: newTagName,
-            },
-          ],
-        };
-      }
-      return group;
-    });
-    saveTagGroups(updatedGroups);
+    const selectedGroup = tagGroups.find((group) => group.id === selectedGroupId);
+    if (selectedGroup && isDuplicateTagName(selectedGroup, newTagName)) {
+      Toast.show({
+        type: "error",
+        text1: "名称重复",
+        text2: `分组「${selectedGroup.name}」中已存在标签「${newTagName.trim()}」`,
+      });
+      return;
+    }
+    saveTagGroups((groups) =>
+      groups.map((group) => {
+        if (group.id === selectedGroupId) {
+          return {
+            ...group,
+            tags: [
+              ...group.tags,
+              {
+                id: Date.now().toString(),
+                name: newTagName,
+                groupId: group.id,
+              },
+            ],
+          };
+        }
+        return group;
+      })
+    );
     setNewTagName("");
     Toast.show({
       type: "success",
@@ -110,23 +162,44 @@ const TagManagementScreen = () => {
     });
   };
 
+  // 删除前保存快照，撤销时连同图片上被移除的标签一起恢复
+  const deleteWithUndo = async (
+    description: string,
+    updater: (groups: TagGroup[]) => TagGroup[]
+  ) => {
+    const groupsBefore = tagGroupStore.get();
+    const imagesBefore = imageStore.get();
+    if (!(await saveTagGroups(updater))) return;
+    const groupsAfter = tagGroupStore.get();
+    recordOperation({
+      description,
+      undo: () => restoreTagGroups(groupsBefore, groupsAfter, imagesBefore),
+      redo: () => updateTagGroups(updater),
+    });
+  };
+
   const deleteGroup = (groupId: string) => {
-    Alert.alert("删除分组", "确定要删除这个分组吗？删除后分组内的所有标签都会被删除。", [
+    const group = tagGroups.find((g) => g.id === groupId);
+    const affectedCount = countImagesWithTags(
+      imageStore.get(),
+      group?.tags.map((tag) => tag.id) ?? []
+    );
+    const message =
+      affectedCount > 0
+        ? `确定要删除这个分组吗？删除后分组内的所有标签都会被删除，并从 ${affectedCount} 张图片中移除。`
+        : "确定要删除这个分组吗？删除后分组内的所有标签都会被删除。";
+
+    Alert.alert("删除分组", message, [
       { text: "取消" },
       {
         text: "确定",
         onPress: () => {
-          const groupToDelete = tagGroups.find((g) => g.id === groupId);
-          const updatedGroups = tagGroups.filter((group) => group.id !== groupId);
-          saveTagGroups(updatedGroups);
+          deleteWithUndo(`分组「${group?.name || ""}」`, (groups) =>
+            groups.filter((group) => group.id !== groupId)
+          );
           if (selectedGroupId === groupId) {
             setSelectedGroupId(null);
           }
-          Toast.show({
-            type: "success",
-            text1: "成功",
-            text2: `已删除分组「${groupToDelete?.name || ""}」`,
-          });
         },
       },
     ]);
@@ -135,129 +208,362 @@ const TagManagementScreen = () => {
   const deleteTag = (groupId: string, tagId: string) => {
     const groupWithTag = tagGroups.find((g) => g.id === groupId);
     const tagToDelete = groupWithTag?.tags.find((t) => t.id === tagId);
+    const affectedCount = countImagesWithTags(imageStore.get(), [tagId]);
+    const message =
+      affectedCount > 0
+        ? `确定要删除这个标签吗？该标签将从 ${affectedCount} 张图片中移除。`
+        : "确定要删除这个标签吗？";
 
-    Alert.alert("删除标签", "确定要删除这个标签吗？", [
+    Alert.alert("删除标签", message, [
       { text: "取消" },
       {
         text: "确定",
         onPress: () => {
-          const updatedGroups = tagGroups.map((group) => {
-            if (group.id === groupId) {
-              return {
-                ...group,
-                tags: group.tags.filter((tag) => tag.id !== tagId),
-              };
-            }
-            return group;
-          });
-          saveTagGroups(updatedGroups);
-          Toast.show({
-            type: "success",
-            text1: "成功",
-            text2: `已删除标签「${tagToDelete?.name || ""}」`,
-          });
+          deleteWithUndo(`标签「${tagToDelete?.name || ""}」`, (groups) =>
+            groups.map((group) => {
+              if (group.id === groupId) {
+                return {
+                  ...group,
+                  tags: group.tags.filter((tag) => tag.id !== tagId),
+                };
+              }
+              return group;
+            })
+          );
         },
       },
     ]);
   };
 
+  const editingGroup = editTarget && tagGroups.find((group) => group.id === editTarget.groupId);
+  const editingTag =
+    editTarget?.type === "tag"
+      ? editingGroup?.tags.find((tag) => tag.id === editTarget.tagId)
+      : null;
+
+  const submitEdit = (name: string, targetGroupId?: string) => {
+    if (!editTarget || !editingGroup) return;
+    const trimmedName = name.trim();
+
+    if (editTarget.type === "group") {
+      if (isDuplicateGroupName(tagGroups, trimmedName, editTarget.groupId)) {
+        Toast.show({
+          type: "error",
+          text1: "名称重复",
+          text2: `分组「${trimmedName}」已存在`,
+        });
+        return;
+      }
+      saveTagGroups((groups) => renameGroup(groups, editTarget.groupId, trimmedName));
+      Toast.show({
+        type: "success",
+        text1: "成功",
+        text2: `已将分组重命名为「${trimmedName}」`,
+      });
+    } else {
+      const targetGroup = tagGroups.find(
+        (group) => group.id === (targetGroupId ?? editTarget.groupId)
+      );
+      if (!targetGroup) return;
+      if (isDuplicateTagName(targetGroup, trimmedName, editTarget.tagId)) {
+        Toast.show({
+          type: "error",
+          text1: "名称重复",
+          text2: `分组「${targetGroup.name}」中已存在标签「${trimmedName}」`,
+        });
+        return;
+      }
+      saveTagGroups((groups) =>
+        editTag(groups, editTarget.tagId, { name: trimmedName, groupId: targetGroup.id })
+      );
+      Toast.show({
+        type: "success",
+        text1: "成功",
+        text2:
+          targetGroup.id === editTarget.groupId
+            ? `已更新标签「${trimmedName}」`
+            : `已将标签「${trimmedName}」移动到「${targetGroup.name}」`,
+      });
+    }
+    setEditTarget(null);
+  };
+
+  const saveGroupRules = (rules: TagGroupRules) => {
+    if (!rulesGroupId) return;
+    saveTagGroups((groups) => setGroupRules(groups, rulesGroupId, rules));
+    setRulesGroupId(null);
+  };
+
+  const exportLibrary = async (format: LibraryFormat) => {
+    setLibraryModalVisible(false);
+    try {
+      const shared = await exportLibraryFile(tagGroups, format);
+      if (!shared) {
+        Toast.show({
+          type: "info",
+          text1: "提示",
+          text2: "当前设备不支持分享文件",
+        });
+      }
+    } catch (error) {
+      console.error("导出标签库失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "导出标签库失败",
+      });
+    }
+  };
+
+  // 按名称合并导入的分组与标签，完成后列出跳过与冲突的条目
+  const importLibrary = async () => {
+    setLibraryModalVisible(false);
+    let incoming;
+    try {
+      incoming = await pickLibraryFile();
+    } catch (error) {
+      console.error("读取标签库失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "导入失败",
+        text2: error instanceof Error ? error.message : "无法读取文件",
+      });
+      return;
+    }
+    if (!incoming) return;
+
+    // 只与当前项目可见的分组合并，新分组按「仅用于当前项目」的选项决定范围
+    const { groups, report } = mergeLibrary(
+      tagGroupStore.get(),
+      incoming,
+      currentProject.id,
+      isProjectOnly ? currentProject.id : undefined
+    );
+    if (!(await saveTagGroups(() => groups))) return;
+    const { addedGroups, addedTags, skippedTags, conflicts } = report;
+    Alert.alert(
+      "导入完成",
+      [
+        `新增 ${addedGroups} 个分组、${addedTags} 个标签，跳过 ${skippedTags} 个重复标签`,
+        ...conflicts,
+      ].join("\n")
+    );
+  };
+
+  // 保存格式后，已有的结构化时间标签一并按新格式重命名
+  const saveTimeTagFormat = async (format: TimeTagFormat) => {
+    setFormatModalVisible(false);
+    try {
+      await settingsStore.update((current) => ({ ...current, timeTagFormat: format }));
+      await imageStore.update((images) =>
+        images.map((img) => ({ ...img, tags: reformatTimeTags(img.tags, format) }))
+      );
+      Toast.show({
+        type: "success",
+        text1: "成功",
+        text2: "时间标签格式已更新",
+      });
+    } catch (error) {
+      console.error("保存时间标签格式失败:", error);
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
         <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
           <AntDesign name="arrowleft" size={24} color="#333" />
         </TouchableOpacity>
-        <Text style={styles.title}>标签管理</Text>
-        <View style={{ width: 24 }} />
-      </View>
-
-      <View style={styles.addSection}>
-        <View style={styles.addGroupSection}>
-          <TextInput
-            style={styles.input}
-            placeholder="新建分组"
-            value={newGroupName}
-            onChangeText={setNewGroupName}
-          />
-          <TouchableOpacity style={styles.addButton} onPress={addGroup}>
-            <AntDesign name="plus" size={24} color="white" />
+        <Text style={styles.title}>{isSorting ? "调整顺序" : "标签管理"}</Text>
+        <View style={styles.headerRight}>
+          <TouchableOpacity style={styles.backButton} onPress={() => setSorting(!isSorting)}>
+            <AntDesign name={isSorting ? "check" : "swap"} size={22} color="#333" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.backButton} onPress={() => setFormatModalVisible(true)}>
+            <AntDesign name="clockcircleo" size={22} color="#333" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.backButton} onPress={() => setPresetModalVisible(true)}>
+            <AntDesign name="appstore1" size={22} color="#333" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.backButton} onPress={() => setLibraryModalVisible(true)}>
+            <AntDesign name="folder1" size={22} color="#333" />
           </TouchableOpacity>
         </View>
+      </View>
 
-        <View style={styles.addTagSection}>
-          <View style={styles.tagInputContainer}>
-            <TextInput
-              style={[styles.input, !selectedGroupId && styles.inputDisabled]}
-              placeholder={selectedGroupId ? "新建标签" : "请先选择分组"}
-              value={newTagName}
-              onChangeText={setNewTagName}
-              editable={!!selectedGroupId}
-            />
+      {isSorting ? (
+        <TagOrderList
+          groups={tagGroups}
+          onReorderGroups={(groupIds) => saveTagGroups((groups) => reorderGroups(groups, groupIds))}
+          onReorderTags={(groupId, tagIds) =>
+            saveTagGroups((groups) => reorderTags(groups, groupId, tagIds))
+          }
+        />
+      ) : (
+        <>
+          <View style={styles.addSection}>
+            <View style={styles.addGroupSection}>
+              <TextInput
+                style={styles.input}
+                placeholder="新建分组"
+                value={newGroupName}
+                onChangeText={setNewGroupName}
+              />
+              <TouchableOpacity style={styles.addButton} onPress={addGroup}>
+                <AntDesign name="plus" size={24} color="white" />
+              </TouchableOpacity>
+            </View>
             <TouchableOpacity
-              style={[styles.addButton, !selectedGroupId && styles.disabled]}
-              onPress={addTag}
-              disabled={!selectedGroupId}>
-              <AntDesign name="plus" size={24} color="white" />
+              style={styles.scopeToggle}
+              onPress={() => setProjectOnly(!isProjectOnly)}>
+              <AntDesign
+                name={isProjectOnly ? "checkcircle" : "checkcircleo"}
+                size={16}
+                color={isProjectOnly ? "#2196F3" : "#999"}
+              />
+              <Text style={styles.scopeToggleText}>新分组仅用于项目「{currentProject.name}」</Text>
             </TouchableOpacity>
-          </View>
-        </View>
-      </View>
 
-      <ScrollView style={styles.groupsContainer}>
-        {tagGroups.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>尚未创建任何分组</Text>
+            <View style={styles.addTagSection}>
+              <View style={styles.tagInputContainer}>
+                <TextInput
+                  style={[styles.input, !selectedGroupId && styles.inputDisabled]}
+                  placeholder={selectedGroupId ? "新建标签" : "请先选择分组"}
+                  value={newTagName}
+                  onChangeText={setNewTagName}
+                  editable={!!selectedGroupId}
+                />
+                <TouchableOpacity
+                  style={[styles.addButton, !selectedGroupId && styles.disabled]}
+                  onPress={addTag}
+                  disabled={!selectedGroupId}>
+                  <AntDesign name="plus" size={24} color="white" />
+                </TouchableOpacity>
+              </View>
+            </View>
           </View>
-        ) : (
-          tagGroups.map((group) => (
-            <View key={group.id} style={styles.groupSection}>
-              <TouchableOpacity
-                style={[
-                  styles.groupHeader,
-                  selectedGroupId === group.id && styles.groupHeaderSelected,
-                ]}
-                onPress={() => {
-                  setSelectedGroupId(selectedGroupId === group.id ? null : group.id);
-                }}>
-                <View style={styles.groupHeaderLeft}>
-                  <Text style={styles.groupName}>{group.name}</Text>
-                </View>
-                <View style={styles.groupHeaderRight}>
+
+          <ScrollView style={styles.groupsContainer}>
+            {tagGroups.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>尚未创建任何分组</Text>
+              </View>
+            ) : (
+              tagGroups.map((group) => (
+                <View key={group.id} style={styles.groupSection}>
                   <TouchableOpacity
-                    onPress={(e) => {
-                      e.stopPropagation();
-                      deleteGroup(group.id);
-                    }}
-                    style={styles.deleteGroupButton}>
-                    <AntDesign name="delete" size={20} color="#ff4444" />
-                  </TouchableOpacity>
-                </View>
-              </TouchableOpacity>
-              <>
-                <View style={styles.tagsContainer}>
-                  {group.tags.length === 0 ? (
-                    <Text style={styles.emptyTagsText}>没有标签</Text>
-                  ) : (
-                    group.tags.map((tag) => (
+                    style={[
+                      styles.groupHeader,
+                      selectedGroupId === group.id && styles.groupHeaderSelected,
+                    ]}
+                    onPress={() => {
+                      setSelectedGroupId(selectedGroupId === group.id ? null : group.id);
+                    }}>
+                    <View style={styles.groupHeaderLeft}>
+                      <Text style={styles.groupName}>{group.name}</Text>
+                      {!!group.projectId && (
+                        <Text style={styles.groupScope}>仅「{currentProject.name}」</Text>
+                      )}
+                      {!!describeGroupRules(getGroupRules(group)) && (
+                        <Text style={styles.groupRules}>
+                          {describeGroupRules(getGroupRules(group))}
+                        </Text>
+                      )}
+                    </View>
+                    <View style={styles.groupHeaderRight}>
+                      <TouchableOpacity
+                        onPress={(e) => {
+                          e.stopPropagation();
+                          setRulesGroupId(group.id);
+                        }}
+                        style={styles.editGroupButton}>
+                        <AntDesign name="setting" size={20} color="#2196F3" />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        onPress={(e) => {
+                          e.stopPropagation();
+                          setEditTarget({ type: "group", groupId: group.id });
+                        }}
+                        style={styles.editGroupButton}>
+                        <AntDesign name="edit" size={20} color="#2196F3" />
+                      </TouchableOpacity>
                       <TouchableOpacity
-                        key={tag.id}
-                        style={styles.tag}
-                        onLongPress={() => deleteTag(group.id, tag.id)}>
-                        <Text style={styles.tagText}>{tag.name}</Text>
-                        <TouchableOpacity
-                          style={styles.deleteTagButton}
-                          onPress={() => deleteTag(group.id, tag.id)}>
-                          <AntDesign name="close" size={12} color="#777" />
-                        </TouchableOpacity>
+                        onPress={(e) => {
+                          e.stopPropagation();
+                          deleteGroup(group.id);
+                        }}
+                        style={styles.deleteGroupButton}>
+                        <AntDesign name="delete" size={20} color="#ff4444" />
                       </TouchableOpacity>
-                    ))
-                  )}
+                    </View>
+                  </TouchableOpacity>
+                  <>
+                    <View style={styles.tagsContainer}>
+                      {group.tags.length === 0 ? (
+                        <Text style={styles.emptyTagsText}>没有标签</Text>
+                      ) : (
+                        group.tags.map((tag) => (
+                          <TouchableOpacity
+                            key={tag.id}
+                            style={styles.tag}
+                            onPress={() =>
+                              setEditTarget({ type: "tag", groupId: group.id, tagId: tag.id })
+                            }
+                            onLongPress={() => deleteTag(group.id, tag.id)}>
+                            <Text style={styles.tagText}>{tag.name}</Text>
+                            <TouchableOpacity
+                              style={styles.deleteTagButton}
+                              onPress={() => deleteTag(group.id, tag.id)}>
+                              <AntDesign name="close" size={12} color="#777" />
+                            </TouchableOpacity>
+                          </TouchableOpacity>
+                        ))
+                      )}
+                    </View>
+                  </>
                 </View>
-              </>
-            </View>
-          ))
-        )}
-      </ScrollView>
+              ))
+            )}
+          </ScrollView>
+        </>
+      )}
+
+      <TagEditModal
+        visible={!!editingGroup && (editTarget?.type === "group" || !!editingTag)}
+        title={editTarget?.type === "tag" ? "编辑标签" : "重命名分组"}
+        initialName={(editTarget?.type === "tag" ? editingTag?.name : editingGroup?.name) ?? ""}
+        groups={editTarget?.type === "tag" ? tagGroups : undefined}
+        initialGroupId={editTarget?.groupId}
+        onClose={() => setEditTarget(null)}
+        onSubmit={submitEdit}
+      />
+
+      <GroupRulesModal
+        visible={!!rulesGroupId}
+        group={tagGroups.find((group) => group.id === rulesGroupId) ?? null}
+        onClose={() => setRulesGroupId(null)}
+        onSubmit={saveGroupRules}
+      />
+
+      <TagLibraryModal
+        visible={isLibraryModalVisible}
+        onClose={() => setLibraryModalVisible(false)}
+        onExport={exportLibrary}
+        onImport={importLibrary}
+      />
+
+      <TagPresetModal
+        visible={isPresetModalVisible}
+        groups={tagGroups}
+        onClose={() => setPresetModalVisible(false)}
+      />
+
+      <TimeTagFormatModal
+        visible={isFormatModalVisible}
+        format={timeTagFormat}
+        onClose={() => setFormatModalVisible(false)}
+        onSubmit={saveTimeTagFormat}
+      />
     </SafeAreaView>
   );
 };
@@ -279,6 +585,9 @@ const styles = StyleSheet.create({
   backButton: {
     padding: 8,
   },
+  headerRight: {
+    flexDirection: "row",
+  },
   title: {
     fontSize: 18,
     fontWeight: "bold",
@@ -293,6 +602,17 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     marginBottom: 12,
   },
+  scopeToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  scopeToggleText: {
+    fontSize: 13,
+    color: "#666",
+    marginLeft: 6,
+  },
   addTagSection: {
     marginTop: 8,
   },
@@ -387,6 +707,9 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  editGroupButton: {
+    padding: 8,
+  },
   deleteGroupButton: {
     padding: 8,
   },
@@ -395,6 +718,16 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#2c3e50",
   },
+  groupRules: {
+    fontSize: 12,
+    color: "#1976D2",
+    marginTop: 2,
+  },
+  groupScope: {
+    fontSize: 12,
+    color: "#FF9800",
+    marginTop: 2,
+  },
   tagsContainer: {
     flexDirection: "row",
     flexWrap: "wrap",
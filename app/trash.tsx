@@ -0,0 +1,228 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, Image, Alert } from "react-native";
+import { AntDesign } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Toast from "react-native-toast-message";
+import { router } from "expo-router";
+import { formatDate } from "@/lib/dates";
+import { trashStore } from "@/lib/storage";
+import { TRASH_RETENTION_DAYS, deleteFromTrash, getDaysLeft, restoreFromTrash } from "@/lib/trash";
+import type { TrashItem } from "@/lib/types";
+import { useStore } from "@/hooks/useStore";
+
+const TrashScreen = () => {
+  const items = useStore(trashStore);
+
+  const handleRestore = async (ids: string[]) => {
+    try {
+      const count = await restoreFromTrash(ids);
+      Toast.show({
+        type: "success",
+        text1: "成功",
+        text2: `已恢复 ${count} 张图片`,
+      });
+    } catch (error) {
+      console.error("恢复图片失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "恢复图片失败",
+      });
+    }
+  };
+
+  const confirmDelete = (ids: string[], message: string) => {
+    Alert.alert("彻底删除", message, [
+      { text: "取消", style: "cancel" },
+      {
+        text: "删除",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteFromTrash(ids);
+          } catch (error) {
+            console.error("删除图片失败:", error);
+            Toast.show({
+              type: "error",
+              text1: "错误",
+              text2: "删除图片失败",
+            });
+          }
+        },
+      },
+    ]);
+  };
+
+  const allIds = items.map((item) => item.image.id);
+
+  const renderItem = ({ item }: { item: TrashItem }) => (
+    <View style={styles.item}>
+      <Image source={{ uri: item.image.thumbnailUri ?? item.image.uri }} style={styles.thumbnail} />
+      <View style={styles.itemInfo}>
+        <Text style={styles.itemTitle}>
+          删除于 {formatDate(new Date(item.deletedAt), "YYYY-MM-DD HH:mm")}
+        </Text>
+        <Text style={styles.itemSubtitle}>{getDaysLeft(item)} 天后彻底删除</Text>
+        {item.image.tags.length > 0 && (
+          <Text style={styles.itemSubtitle} numberOfLines={1}>
+            {item.image.tags.map((tag) => tag.name).join("、")}
+          </Text>
+        )}
+      </View>
+      <TouchableOpacity style={styles.iconButton} onPress={() => handleRestore([item.image.id])}>
+        <AntDesign name="reload1" size={20} color="#2196F3" />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => confirmDelete([item.image.id], "确定要彻底删除这张图片吗？此操作不可恢复")}>
+        <AntDesign name="delete" size={20} color="#ff4444" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <AntDesign name="arrowleft" size={24} color="#333" />
+        </TouchableOpacity>
+        <Text style={styles.title}>最近删除</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <Text style={styles.hint}>
+        图片会在删除 {TRASH_RETENTION_DAYS} 天后被彻底删除，在此之前可以恢复到照片墙
+      </Text>
+
+      {items.length === 0 ? (
+        <View style={styles.emptyState}>
+          <AntDesign name="delete" size={48} color="#ccc" />
+          <Text style={styles.emptyText}>没有最近删除的图片</Text>
+        </View>
+      ) : (
+        <>
+          <FlatList
+            data={items}
+            keyExtractor={(item) => item.image.id}
+            renderItem={renderItem}
+            contentContainerStyle={styles.list}
+          />
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.button} onPress={() => handleRestore(allIds)}>
+              <AntDesign name="reload1" size={20} color="white" />
+              <Text style={styles.buttonText}>全部恢复</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.dangerButton]}
+              onPress={() =>
+                confirmDelete(allIds, `确定要彻底删除全部 ${items.length} 张图片吗？此操作不可恢复`)
+              }>
+              <AntDesign name="delete" size={20} color="white" />
+              <Text style={styles.buttonText}>全部删除</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "white",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  backButton: {
+    padding: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#999",
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  list: {
+    paddingHorizontal: 16,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: "#f5f5f5",
+  },
+  itemInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  itemTitle: {
+    fontSize: 14,
+    color: "#333",
+    marginBottom: 4,
+  },
+  itemSubtitle: {
+    fontSize: 12,
+    color: "#999",
+  },
+  iconButton: {
+    padding: 8,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  emptyText: {
+    fontSize: 15,
+    color: "#999",
+    marginTop: 12,
+  },
+  footer: {
+    flexDirection: "row",
+    padding: 16,
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  button: {
+    flex: 1,
+    backgroundColor: "#2196F3",
+    height: 50,
+    borderRadius: 25,
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    elevation: 5,
+  },
+  dangerButton: {
+    backgroundColor: "#ff4444",
+  },
+  buttonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+});
+
+export default TrashScreen;
@@ -0,0 +1,240 @@
+import React, { useState, useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  useWindowDimensions,
+} from "react-native";
+import { AntDesign } from "@expo/vector-icons";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router, useLocalSearchParams } from "expo-router";
+import { imageStore } from "@/lib/storage";
+import { updateImagesTags } from "@/lib/tags";
+import type { ImageItem } from "@/lib/types";
+import { useStore } from "@/hooks/useStore";
+import { useWallImages } from "@/hooks/useWallImages";
+import TagModal from "@/components/TagModal";
+import ZoomableImage from "@/components/ZoomableImage";
+
+const ViewerScreen = () => {
+  // id 为打开时点击的图片
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const allImages = useStore(imageStore);
+  const { visibleImages } = useWallImages();
+  const { width, height } = useWindowDimensions();
+  // 打开时固定照片墙的顺序，编辑标签后即使不再符合筛选条件也不会从浏览中消失
+  const [imageIds] = useState(() => visibleImages.map((img) => img.id));
+  const [initialIndex] = useState(() => Math.max(0, imageIds.indexOf(id)));
+  const [index, setIndex] = useState(initialIndex);
+  const [isOverlayVisible, setOverlayVisible] = useState(true);
+  const [isZoomed, setZoomed] = useState(false);
+  const [taggingImages, setTaggingImages] = useState<ImageItem[]>([]);
+
+  // 已删除的图片从浏览中移除，标签变化实时反映
+  const images = useMemo(() => {
+    const byId = new Map(allImages.map((img) => [img.id, img]));
+    return imageIds.flatMap((imageId) => byId.get(imageId) ?? []);
+  }, [allImages, imageIds]);
+  // 删除图片后列表变短，位置不能超出末尾
+  const position = Math.min(index, images.length - 1);
+  const current = images[position];
+
+  const openTagModal = () => {
+    if (current) setTaggingImages([current]);
+  };
+
+  const renderItem = ({ item }: { item: ImageItem }) => (
+    <View style={{ width, height }}>
+      {item.missing ? (
+        <View style={styles.missingContainer}>
+          <AntDesign name="warning" size={32} color="#ff4444" />
+          <Text style={styles.missingText}>文件已丢失</Text>
+        </View>
+      ) : (
+        <ZoomableImage
+          uri={item.uri}
+          width={width}
+          height={height}
+          onTap={() => setOverlayVisible((visible) => !visible)}
+          onZoomChange={setZoomed}
+        />
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={images}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        horizontal
+        pagingEnabled
+        scrollEnabled={!isZoomed}
+        showsHorizontalScrollIndicator={false}
+        initialScrollIndex={Math.min(initialIndex, Math.max(0, images.length - 1))}
+        getItemLayout={(_, itemIndex) => ({
+          length: width,
+          offset: width * itemIndex,
+          index: itemIndex,
+        })}
+        onMomentumScrollEnd={(event) =>
+          setIndex(Math.round(event.nativeEvent.contentOffset.x / width))
+        }
+        initialNumToRender={1}
+        maxToRenderPerBatch={2}
+        windowSize={3}
+      />
+
+      {isOverlayVisible && (
+        <SafeAreaView style={styles.topBar} edges={["top"]}>
+          <TouchableOpacity style={styles.iconButton} onPress={() => router.back()}>
+            <AntDesign name="arrowleft" size={24} color="white" />
+          </TouchableOpacity>
+          <Text style={styles.counterText}>
+            {current ? `${position + 1} / ${images.length}` : ""}
+          </Text>
+          <View style={{ width: 40 }} />
+        </SafeAreaView>
+      )}
+
+      {isOverlayVisible && current && (
+        <SafeAreaView style={styles.bottomPanel} edges={["bottom"]}>
+          <View style={styles.tagContainer}>
+            {current.tags.length === 0 ? (
+              <Text style={styles.emptyTagsText}>还没有标签</Text>
+            ) : (
+              current.tags.map((tag) => (
+                <Text key={tag.id} style={[styles.tag, tag.isTimeTag && styles.timeTag]}>
+                  {tag.name}
+                </Text>
+              ))
+            )}
+          </View>
+          <TouchableOpacity style={styles.editButton} onPress={openTagModal}>
+            <AntDesign name="tags" size={18} color="white" />
+            <Text style={styles.editButtonText}>编辑标签</Text>
+          </TouchableOpacity>
+        </SafeAreaView>
+      )}
+
+      {images.length === 0 && (
+        <SafeAreaView style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>没有可浏览的图片</Text>
+          <TouchableOpacity style={styles.editButton} onPress={() => router.back()}>
+            <AntDesign name="arrowleft" size={18} color="white" />
+            <Text style={styles.editButtonText}>返回</Text>
+          </TouchableOpacity>
+        </SafeAreaView>
+      )}
+
+      <TagModal
+        visible={taggingImages.length > 0}
+        onClose={() => setTaggingImages([])}
+        images={taggingImages}
+        onUpdateTags={(update) =>
+          updateImagesTags(
+            taggingImages.map((img) => img.id),
+            update
+          )
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "black",
+  },
+  topBar: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  iconButton: {
+    padding: 8,
+  },
+  counterText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  bottomPanel: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 16,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+  },
+  tagContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginBottom: 12,
+  },
+  tag: {
+    backgroundColor: "rgba(255, 255, 255, 0.85)",
+    borderRadius: 10,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    margin: 3,
+    fontSize: 13,
+    color: "#333",
+    overflow: "hidden",
+  },
+  timeTag: {
+    backgroundColor: "rgba(227, 242, 253, 0.9)",
+    color: "#1976D2",
+  },
+  emptyTagsText: {
+    color: "#ccc",
+    fontSize: 14,
+  },
+  editButton: {
+    backgroundColor: "#2196F3",
+    height: 44,
+    borderRadius: 22,
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: 20,
+  },
+  editButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+    marginLeft: 8,
+  },
+  missingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  missingText: {
+    marginTop: 8,
+    fontSize: 15,
+    color: "#ff4444",
+  },
+  emptyContainer: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 16,
+  },
+  emptyText: {
+    color: "#ccc",
+    fontSize: 16,
+  },
+});
+
+export default ViewerScreen;
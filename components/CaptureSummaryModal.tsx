@@ -0,0 +1,149 @@
+import React, { useRef } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Image } from "react-native";
+import Modal from "react-native-modal";
+import type { ImageItem, Tag } from "@/lib/types";
+
+interface CaptureSummaryModalProps {
+  visible: boolean;
+  images: ImageItem[];
+  // The tags that were added to every photo of the session
+  tags: Tag[];
+  onClose: () => void;
+  // Called once the summary has closed, so another modal can open in its place
+  onAdjustTags: () => void;
+}
+
+const CaptureSummaryModal: React.FC<CaptureSummaryModalProps> = ({
+  visible,
+  images,
+  tags,
+  onClose,
+  onAdjustTags,
+}) => {
+  const adjustRequested = useRef(false);
+
+  const requestAdjust = () => {
+    adjustRequested.current = true;
+    onClose();
+  };
+
+  const handleModalHide = () => {
+    if (!adjustRequested.current) return;
+    adjustRequested.current = false;
+    onAdjustTags();
+  };
+
+  return (
+    <Modal isVisible={visible} onBackdropPress={onClose} onModalHide={handleModalHide}>
+      <View style={styles.container}>
+        <Text style={styles.title}>本次连拍 {images.length} 张</Text>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.strip}>
+          {images.map((img) => (
+            <Image
+              key={img.id}
+              source={{ uri: img.thumbnailUri ?? img.uri }}
+              style={styles.thumbnail}
+            />
+          ))}
+        </ScrollView>
+
+        <Text style={styles.sectionTitle}>已添加的标签</Text>
+        <View style={styles.tagContainer}>
+          {tags.length === 0 ? (
+            <Text style={styles.emptyText}>只添加了拍摄日期</Text>
+          ) : (
+            tags.map((tag) => (
+              <Text key={tag.id} style={[styles.tag, tag.isTimeTag && styles.timeTag]}>
+                {tag.name}
+              </Text>
+            ))
+          )}
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={requestAdjust} style={styles.actionButton}>
+            <Text style={styles.adjustText}>调整标签</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onClose} style={styles.actionButton}>
+            <Text style={styles.confirmText}>完成</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1a1a1a",
+    marginBottom: 12,
+  },
+  strip: {
+    flexGrow: 0,
+  },
+  thumbnail: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+    marginRight: 8,
+    backgroundColor: "#f5f5f5",
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  tagContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  tag: {
+    backgroundColor: "#f0f0f0",
+    borderRadius: 10,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    margin: 3,
+    fontSize: 13,
+    color: "#333",
+    overflow: "hidden",
+  },
+  timeTag: {
+    backgroundColor: "#E3F2FD",
+    color: "#1976D2",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#999",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 20,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  adjustText: {
+    color: "#777",
+    fontSize: 16,
+  },
+  confirmText: {
+    color: "#2196F3",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default CaptureSummaryModal;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from "react-native";
+import Modal from "react-native-modal";
+import type { ExportJob } from "@/lib/exportJob";
+
+interface ExportProgressProps {
+  job: ExportJob | null;
+  onShare: (uri: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_TITLES = {
+  idle: "准备导出",
+  running: "正在导出",
+  cancelled: "导出已暂停",
+  finished: "导出完成",
+  error: "导出失败",
+};
+
+const ExportProgress: React.FC<ExportProgressProps> = ({ job, onShare, onClose }) => {
+  const [state, setState] = useState(job?.getState());
+
+  useEffect(() => {
+    setState(job?.getState());
+    return job?.subscribe(setState);
+  }, [job]);
+
+  if (!job || !state) return null;
+
+  const processed = state.succeeded + state.failures.length;
+  const percent = state.total > 0 ? Math.round((processed / state.total) * 100) : 0;
+  const isRunning = state.status === "running";
+
+  return (
+    <Modal isVisible={!!job} style={styles.modal}>
+      <View style={styles.container}>
+        <Text style={styles.title}>{STATUS_TITLES[state.status]}</Text>
+
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressBar, { width: `${percent}%` }]} />
+        </View>
+        <View style={styles.progressInfo}>
+          <Text style={styles.progressText}>
+            {processed}/{state.total}
+          </Text>
+          <Text style={styles.progressText}>
+            成功 {state.succeeded} · 失败 {state.failures.length}
+          </Text>
+        </View>
+        {isRunning && state.currentFile && (
+          <Text style={styles.currentFile} numberOfLines={1}>
+            {state.currentFile}
+          </Text>
+        )}
+        {state.error && <Text style={styles.errorText}>{state.error}</Text>}
+
+        {!isRunning && state.failures.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>失败列表</Text>
+            <ScrollView style={styles.failureList}>
+              {state.failures.map((failure) => (
+                <View key={failure.image.id} style={styles.failureItem}>
+                  <Text style={styles.failureName} numberOfLines={1}>
+                    {failure.fileName}
+                  </Text>
+                  <Text style={styles.failureReason} numberOfLines={2}>
+                    {failure.reason}
+                  </Text>
+                </View>
+              ))}
+            </ScrollView>
+          </>
+        )}
+
+        <View style={styles.actions}>
+          {isRunning ? (
+            <TouchableOpacity onPress={job.cancel} style={styles.actionButton}>
+              <Text style={styles.cancelText}>取消</Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              <TouchableOpacity onPress={onClose} style={styles.actionButton}>
+                <Text style={styles.secondaryText}>关闭</Text>
+              </TouchableOpacity>
+              {(state.status === "cancelled" || state.status === "error") && (
+                <TouchableOpacity onPress={job.run} style={styles.actionButton}>
+                  <Text style={styles.primaryText}>继续</Text>
+                </TouchableOpacity>
+              )}
+              {state.status === "finished" && state.failures.length > 0 && (
+                <TouchableOpacity onPress={job.retryFailed} style={styles.actionButton}>
+                  <Text style={styles.primaryText}>重试失败项</Text>
+                </TouchableOpacity>
+              )}
+              {state.status === "finished" && state.resultUri && (
+                <TouchableOpacity
+                  onPress={() => onShare(state.resultUri!)}
+                  style={styles.actionButton}>
+                  <Text style={styles.primaryText}>分享</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modal: {
+    justifyContent: "center",
+  },
+  container: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1a1a1a",
+    marginBottom: 16,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: "#e9ecef",
+    overflow: "hidden",
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: "#2196F3",
+  },
+  progressInfo: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 8,
+  },
+  progressText: {
+    fontSize: 13,
+    color: "#666",
+  },
+  currentFile: {
+    fontSize: 13,
+    color: "#999",
+    marginTop: 4,
+  },
+  errorText: {
+    color: "#ff4444",
+    fontSize: 13,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  failureList: {
+    maxHeight: 200,
+  },
+  failureItem: {
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  failureName: {
+    fontSize: 14,
+    color: "#333",
+  },
+  failureReason: {
+    fontSize: 12,
+    color: "#ff4444",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 20,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  cancelText: {
+    color: "#ff4444",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryText: {
+    color: "#777",
+    fontSize: 16,
+  },
+  primaryText: {
+    color: "#2196F3",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
+
+export default ExportProgress;
@@ -0,0 +1,332 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Switch,
+} from "react-native";
+import Modal from "react-native-modal";
+import { EMPTY_FILTER, parseTimeBound } from "@/lib/imageFilter";
+import type { ImageFilter, TagGroup } from "@/lib/types";
+
+interface FilterModalProps {
+  visible: boolean;
+  onClose: () => void;
+  filter: ImageFilter;
+  tagGroups: TagGroup[];
+  onApply: (filter: ImageFilter) => void;
+}
+
+const toggleId = (ids: string[], id: string) =>
+  ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id];
+
+const FilterModal: React.FC<FilterModalProps> = ({
+  visible,
+  onClose,
+  filter,
+  tagGroups,
+  onApply,
+}) => {
+  const [draft, setDraft] = useState(filter);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(filter);
+    }
+  }, [visible, filter]);
+
+  // 点击标签依次切换：不限 → 包含 → 排除 → 不限
+  const cycleTag = (tagId: string) => {
+    if (draft.includeTagIds.includes(tagId)) {
+      setDraft({
+        ...draft,
+        includeTagIds: draft.includeTagIds.filter((id) => id !== tagId),
+        excludeTagIds: [...draft.excludeTagIds, tagId],
+      });
+    } else if (draft.excludeTagIds.includes(tagId)) {
+      setDraft({ ...draft, excludeTagIds: draft.excludeTagIds.filter((id) => id !== tagId) });
+    } else {
+      setDraft({ ...draft, includeTagIds: [...draft.includeTagIds, tagId] });
+    }
+  };
+
+  // Dates that can't be read would silently be ignored by the filter
+  const invalidTime = [draft.timeFrom, draft.timeTo].some(
+    (text) => !!text.trim() && !parseTimeBound(text)
+  );
+
+  const handleApply = () => {
+    if (invalidTime) return;
+    onApply(draft);
+    onClose();
+  };
+
+  return (
+    <Modal isVisible={visible} onBackdropPress={onClose} style={styles.modal}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>筛选照片</Text>
+          <View style={styles.headerButtons}>
+            <TouchableOpacity onPress={() => setDraft(EMPTY_FILTER)} style={styles.resetButton}>
+              <Text style={styles.resetButtonText}>重置</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleApply} disabled={invalidTime}>
+              <Text style={[styles.applyButton, invalidTime && styles.disabledText]}>应用</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <View style={styles.row}>
+            <Text style={styles.sectionTitle}>包含的标签需要</Text>
+            <View style={styles.segment}>
+              {(["and", "or"] as const).map((mode) => (
+                <TouchableOpacity
+                  key={mode}
+                  style={[styles.segmentItem, draft.mode === mode && styles.segmentItemActive]}
+                  onPress={() => setDraft({ ...draft, mode })}>
+                  <Text
+                    style={[styles.segmentText, draft.mode === mode && styles.segmentTextActive]}>
+                    {mode === "and" ? "全部满足" : "满足任一"}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          <Text style={styles.hintText}>点击标签切换：包含 → 排除 → 不限</Text>
+
+          {tagGroups.map((group) => (
+            <View key={group.id} style={styles.groupSection}>
+              <Text style={styles.groupName}>{group.name}</Text>
+              <View style={styles.tagsContainer}>
+                {group.tags.map((tag) => {
+                  const included = draft.includeTagIds.includes(tag.id);
+                  const excluded = draft.excludeTagIds.includes(tag.id);
+                  return (
+                    <TouchableOpacity
+                      key={tag.id}
+                      style={[
+                        styles.tag,
+                        included && styles.tagIncluded,
+                        excluded && styles.tagExcluded,
+                      ]}
+                      onPress={() => cycleTag(tag.id)}>
+                      <Text
+                        style={[styles.tagText, (included || excluded) && styles.tagActiveText]}>
+                        {excluded ? `非 ${tag.name}` : tag.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+
+          <View style={styles.row}>
+            <Text style={styles.sectionTitle}>仅显示无标签的照片</Text>
+            <Switch
+              value={draft.untaggedOnly}
+              onValueChange={(untaggedOnly) => setDraft({ ...draft, untaggedOnly })}
+            />
+          </View>
+
+          <Text style={styles.sectionTitle}>缺少以下分组标签</Text>
+          <View style={styles.tagsContainer}>
+            {tagGroups.map((group) => {
+              const selected = draft.missingGroupIds.includes(group.id);
+              return (
+                <TouchableOpacity
+                  key={group.id}
+                  style={[styles.tag, selected && styles.tagIncluded]}
+                  onPress={() =>
+                    setDraft({
+                      ...draft,
+                      missingGroupIds: toggleId(draft.missingGroupIds, group.id),
+                    })
+                  }>
+                  <Text style={[styles.tagText, selected && styles.tagActiveText]}>
+                    {group.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.sectionTitle}>时间标签范围</Text>
+          <View style={styles.row}>
+            <TextInput
+              style={styles.input}
+              placeholder="起始 (如: 2024-06)"
+              value={draft.timeFrom}
+              onChangeText={(timeFrom) => setDraft({ ...draft, timeFrom })}
+            />
+            <Text style={styles.rangeSeparator}>至</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="结束 (如: 2024-08)"
+              value={draft.timeTo}
+              onChangeText={(timeTo) => setDraft({ ...draft, timeTo })}
+            />
+          </View>
+          {invalidTime && (
+            <Text style={styles.errorText}>无法识别的日期，请按 2024-06 的格式输入</Text>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modal: {
+    margin: 0,
+    justifyContent: "flex-end",
+  },
+  container: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 25,
+    borderTopRightRadius: 25,
+    padding: 16,
+    height: "80%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1a1a1a",
+  },
+  headerButtons: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  resetButton: {
+    marginRight: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  resetButtonText: {
+    color: "#FF5722",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  applyButton: {
+    color: "#2196F3",
+    fontSize: 16,
+    fontWeight: "600",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginVertical: 10,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#ff4444",
+    marginTop: 6,
+  },
+  disabledText: {
+    color: "#bdbdbd",
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#999",
+    marginBottom: 10,
+  },
+  segment: {
+    flexDirection: "row",
+    backgroundColor: "#f1f3f5",
+    borderRadius: 16,
+    padding: 2,
+  },
+  segmentItem: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+  },
+  segmentItemActive: {
+    backgroundColor: "#2196F3",
+  },
+  segmentText: {
+    fontSize: 13,
+    color: "#495057",
+  },
+  segmentTextActive: {
+    color: "white",
+    fontWeight: "600",
+  },
+  groupSection: {
+    marginBottom: 8,
+  },
+  groupName: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    marginBottom: 6,
+  },
+  tagsContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  tag: {
+    backgroundColor: "#f1f3f5",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginRight: 6,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderColor: "#e9ecef",
+  },
+  tagIncluded: {
+    backgroundColor: "#2196F3",
+    borderColor: "#1976D2",
+  },
+  tagExcluded: {
+    backgroundColor: "#ff4444",
+    borderColor: "#d32f2f",
+  },
+  tagText: {
+    color: "#495057",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  tagActiveText: {
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1.5,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    padding: 10,
+    fontSize: 14,
+    backgroundColor: "#fafafa",
+  },
+  rangeSeparator: {
+    marginHorizontal: 8,
+    color: "#666",
+  },
+});
+
+export default FilterModal;
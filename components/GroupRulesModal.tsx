@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Switch } from "react-native";
+import Modal from "react-native-modal";
+import { getGroupRules } from "@/lib/groupRules";
+import type { TagGroup, TagGroupRules } from "@/lib/types";
+
+interface GroupRulesModalProps {
+  visible: boolean;
+  group: TagGroup | null;
+  onClose: () => void;
+  onSubmit: (rules: TagGroupRules) => void;
+}
+
+const toText = (count?: number) => (count ? String(count) : "");
+
+const parseCount = (text: string) => {
+  const count = parseInt(text, 10);
+  return Number.isNaN(count) || count <= 0 ? undefined : count;
+};
+
+const GroupRulesModal: React.FC<GroupRulesModalProps> = ({ visible, group, onClose, onSubmit }) => {
+  const [singleSelect, setSingleSelect] = useState(false);
+  const [required, setRequired] = useState(false);
+  const [minText, setMinText] = useState("");
+  const [maxText, setMaxText] = useState("");
+
+  useEffect(() => {
+    if (!group) return;
+    const rules = getGroupRules(group);
+    setSingleSelect(rules.singleSelect);
+    setRequired(rules.required);
+    setMinText(toText(rules.minCount));
+    setMaxText(toText(rules.maxCount));
+  }, [group, visible]);
+
+  const minCount = parseCount(minText);
+  const maxCount = parseCount(maxText);
+  const error =
+    !singleSelect && minCount && maxCount && minCount > maxCount
+      ? "最少数量不能大于最多数量"
+      : null;
+
+  const handleSubmit = () => {
+    if (error) return;
+    const rules: TagGroupRules = { singleSelect, required };
+    if (!singleSelect && minCount) rules.minCount = minCount;
+    if (!singleSelect && maxCount) rules.maxCount = maxCount;
+    onSubmit(rules);
+  };
+
+  return (
+    <Modal isVisible={visible} onBackdropPress={onClose} avoidKeyboard>
+      <View style={styles.container}>
+        <Text style={styles.title}>「{group?.name}」分组规则</Text>
+
+        <View style={styles.row}>
+          <View style={styles.rowLabel}>
+            <Text style={styles.label}>单选</Text>
+            <Text style={styles.hintText}>每张照片只能有一个该分组的标签</Text>
+          </View>
+          <Switch value={singleSelect} onValueChange={setSingleSelect} />
+        </View>
+        <View style={styles.row}>
+          <View style={styles.rowLabel}>
+            <Text style={styles.label}>必填</Text>
+            <Text style={styles.hintText}>每张照片至少需要一个该分组的标签</Text>
+          </View>
+          <Switch value={required} onValueChange={setRequired} />
+        </View>
+
+        {!singleSelect && (
+          <View style={styles.row}>
+            <Text style={styles.label}>数量</Text>
+            <View style={styles.countInputs}>
+              <TextInput
+                style={styles.input}
+                value={minText}
+                onChangeText={setMinText}
+                placeholder="最少"
+                keyboardType="number-pad"
+              />
+              <Text style={styles.rangeSeparator}>-</Text>
+              <TextInput
+                style={styles.input}
+                value={maxText}
+                onChangeText={setMaxText}
+                placeholder="最多"
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+        )}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={onClose} style={styles.actionButton}>
+            <Text style={styles.cancelText}>取消</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleSubmit} style={styles.actionButton} disabled={!!error}>
+            <Text style={[styles.confirmText, !!error && styles.disabledText]}>保存</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1a1a1a",
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 14,
+  },
+  rowLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  countInputs: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  input: {
+    width: 64,
+    borderWidth: 1.5,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    padding: 8,
+    fontSize: 15,
+    textAlign: "center",
+    backgroundColor: "#fafafa",
+  },
+  rangeSeparator: {
+    marginHorizontal: 8,
+    color: "#666",
+  },
+  errorText: {
+    color: "#ff4444",
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 20,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  cancelText: {
+    color: "#777",
+    fontSize: 16,
+  },
+  confirmText: {
+    color: "#2196F3",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  disabledText: {
+    color: "#bdbdbd",
+  },
+});
+
+export default GroupRulesModal;
@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+} from "react-native";
+import Modal from "react-native-modal";
+import { AntDesign } from "@expo/vector-icons";
+import Toast from "react-native-toast-message";
+import { DEFAULT_PROJECT_ID, getAlbumNameError, getImageProjectId } from "@/lib/projects";
+import { imageStore, projectStore, settingsStore } from "@/lib/storage";
+import { normalizeName, updateTagGroups } from "@/lib/tags";
+import { moveToTrash } from "@/lib/trash";
+import type { Project } from "@/lib/types";
+import { useStore } from "@/hooks/useStore";
+import { useCurrentProject } from "@/hooks/useCurrentProject";
+
+interface ProjectModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const ProjectModal: React.FC<ProjectModalProps> = ({ visible, onClose }) => {
+  const projects = useStore(projectStore);
+  const images = useStore(imageStore);
+  const currentProject = useCurrentProject();
+  // null while creating a new project
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [albumName, setAlbumName] = useState("");
+
+  const imageCounts = useMemo(() => {
+    const projectIds = new Set(projects.map((project) => project.id));
+    const counts = new Map<string, number>();
+    images.forEach((img) => {
+      const id = getImageProjectId(img, projectIds);
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    });
+    return counts;
+  }, [images, projects]);
+
+  useEffect(() => {
+    if (visible) resetForm();
+  }, [visible]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setAlbumName("");
+  };
+
+  // Album defaults to the project name when left empty
+  const resolvedAlbumName = albumName.trim() || name.trim();
+  const nameError =
+    name.trim() &&
+    projects.some(
+      (project) => project.id !== editingId && normalizeName(project.name) === normalizeName(name)
+    )
+      ? `项目「${name.trim()}」已存在`
+      : null;
+  const error = nameError ?? (name.trim() ? getAlbumNameError(resolvedAlbumName) : null);
+  const canSubmit = !!name.trim() && !error;
+
+  const selectProject = async (projectId: string) => {
+    try {
+      await settingsStore.update((current) => ({ ...current, currentProjectId: projectId }));
+      onClose();
+    } catch (error) {
+      console.error("切换项目失败:", error);
+    }
+  };
+
+  const startEdit = (project: Project) => {
+    setEditingId(project.id);
+    setName(project.name);
+    setAlbumName(project.albumName);
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    const draft = { name: name.trim(), albumName: resolvedAlbumName };
+    try {
+      if (editingId) {
+        await projectStore.update((current) =>
+          current.map((project) => (project.id === editingId ? { ...project, ...draft } : project))
+        );
+        Toast.show({
+          type: "success",
+          text1: "成功",
+          text2: `已更新项目「${draft.name}」`,
+        });
+        resetForm();
+      } else {
+        const project: Project = { id: Date.now().toString(), ...draft };
+        await projectStore.update((current) => [...current, project]);
+        // Switch straight to the new project
+        await selectProject(project.id);
+        Toast.show({
+          type: "success",
+          text1: "成功",
+          text2: `已新建项目「${draft.name}」`,
+        });
+      }
+    } catch (error) {
+      console.error("保存项目失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "保存项目失败",
+      });
+    }
+  };
+
+  const deleteProject = async (project: Project) => {
+    try {
+      const projectIds = new Set(projectStore.get().map((p) => p.id));
+      const imageIds = imageStore
+        .get()
+        .filter((img) => getImageProjectId(img, projectIds) === project.id)
+        .map((img) => img.id);
+      await moveToTrash(imageIds);
+      await updateTagGroups((groups) => groups.filter((group) => group.projectId !== project.id));
+      await projectStore.update((current) => current.filter((p) => p.id !== project.id));
+      if (currentProject.id === project.id) {
+        await settingsStore.update((current) => ({
+          ...current,
+          currentProjectId: DEFAULT_PROJECT_ID,
+        }));
+      }
+      if (editingId === project.id) resetForm();
+      Toast.show({
+        type: "success",
+        text1: "成功",
+        text2: `已删除项目「${project.name}」`,
+      });
+    } catch (error) {
+      console.error("删除项目失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "删除项目失败",
+      });
+    }
+  };
+
+  const confirmDelete = (project: Project) => {
+    const count = imageCounts.get(project.id) ?? 0;
+    Alert.alert(
+      "删除项目",
+      count > 0
+        ? `确定要删除项目「${project.name}」吗？其中的 ${count} 张图片会移到最近删除，项目专属的标签分组也会被删除`
+        : `确定要删除项目「${project.name}」吗？项目专属的标签分组也会被删除`,
+      [
+        { text: "取消", style: "cancel" },
+        { text: "删除", style: "destructive", onPress: () => deleteProject(project) },
+      ]
+    );
+  };
+
+  return (
+    <Modal isVisible={visible} onBackdropPress={onClose} avoidKeyboard>
+      <View style={styles.container}>
+        <Text style={styles.title}>项目</Text>
+
+        <ScrollView style={styles.list}>
+          {projects.map((project) => {
+            const isCurrent = project.id === currentProject.id;
+            return (
+              <TouchableOpacity
+                key={project.id}
+                style={[styles.projectRow, isCurrent && styles.projectRowActive]}
+                onPress={() => selectProject(project.id)}>
+                <View style={styles.projectInfo}>
+                  <Text style={[styles.projectName, isCurrent && styles.projectNameActive]}>
+                    {project.name}
+                  </Text>
+                  <Text style={styles.projectMeta}>
+                    {imageCounts.get(project.id) ?? 0} 张 · 导出到「{project.albumName}」
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.iconButton} onPress={() => startEdit(project)}>
+                  <AntDesign name="edit" size={18} color="#2196F3" />
+                </TouchableOpacity>
+                {project.id !== DEFAULT_PROJECT_ID && (
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => confirmDelete(project)}>
+                    <AntDesign name="delete" size={18} color="#ff4444" />
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <Text style={styles.sectionTitle}>{editingId ? "编辑项目" : "新建项目"}</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="项目名称"
+        />
+        <TextInput
+          style={[styles.input, styles.albumInput]}
+          value={albumName}
+          onChangeText={setAlbumName}
+          placeholder={name.trim() ? `导出相册（默认为「${name.trim()}」）` : "导出相册"}
+        />
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={editingId ? resetForm : onClose} style={styles.actionButton}>
+            <Text style={styles.cancelText}>{editingId ? "取消编辑" : "关闭"}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleSubmit}
+            style={styles.actionButton}
+            disabled={!canSubmit}>
+            <Text style={[styles.confirmText, !canSubmit && styles.disabledText]}>
+              {editingId ? "保存" : "新建"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 20,
+    maxHeight: "85%",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1a1a1a",
+    marginBottom: 12,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  projectRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    marginBottom: 6,
+    backgroundColor: "#f5f5f5",
+  },
+  projectRowActive: {
+    backgroundColor: "#E3F2FD",
+  },
+  projectInfo: {
+    flex: 1,
+  },
+  projectName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  projectNameActive: {
+    color: "#1976D2",
+  },
+  projectMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: "#fafafa",
+  },
+  albumInput: {
+    marginTop: 10,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#ff4444",
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 20,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  cancelText: {
+    color: "#777",
+    fontSize: 16,
+  },
+  confirmText: {
+    color: "#2196F3",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  disabledText: {
+    color: "#bdbdbd",
+  },
+});
+
+export default ProjectModal;
@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView } from "react-native";
+import Modal from "react-native-modal";
+import type { TagGroup } from "@/lib/types";
+
+interface TagEditModalProps {
+  visible: boolean;
+  title: string;
+  initialName: string;
+  // Only passed when editing a tag; enables moving it to another group
+  groups?: TagGroup[];
+  initialGroupId?: string;
+  onClose: () => void;
+  onSubmit: (name: string, groupId?: string) => void;
+}
+
+const TagEditModal: React.FC<TagEditModalProps> = ({
+  visible,
+  title,
+  initialName,
+  groups,
+  initialGroupId,
+  onClose,
+  onSubmit,
+}) => {
+  const [name, setName] = useState(initialName);
+  const [groupId, setGroupId] = useState(initialGroupId);
+
+  useEffect(() => {
+    setName(initialName);
+    setGroupId(initialGroupId);
+  }, [initialName, initialGroupId, visible]);
+
+  const handleSubmit = () => {
+    if (!name.trim()) return;
+    onSubmit(name, groupId);
+  };
+
+  return (
+    <Modal isVisible={visible} onBackdropPress={onClose} avoidKeyboard>
+      <View style={styles.container}>
+        <Text style={styles.title}>{title}</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          autoFocus
+          onSubmitEditing={handleSubmit}
+        />
+
+        {groups && groups.length > 1 && (
+          <>
+            <Text style={styles.sectionTitle}>所属分组</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {groups.map((group) => (
+                <TouchableOpacity
+                  key={group.id}
+                  style={[styles.groupChip, groupId === group.id && styles.groupChipSelected]}
+                  onPress={() => setGroupId(group.id)}>
+                  <Text
+                    style={[
+                      styles.groupChipText,
+                      groupId === group.id && styles.groupChipSelectedText,
+                    ]}>
+                    {group.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </>
+        )}
+
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={onClose} style={styles.actionButton}>
+            <Text style={styles.cancelText}>取消</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleSubmit}
+            style={styles.actionButton}
+            disabled={!name.trim()}>
+            <Text style={[styles.confirmText, !name.trim() && styles.disabledText]}>确定</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1a1a1a",
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: "#fafafa",
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  groupChip: {
+    backgroundColor: "#f1f3f5",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginRight: 6,
+    borderWidth: 1,
+    borderColor: "#e9ecef",
+  },
+  groupChipSelected: {
+    backgroundColor: "#2196F3",
+    borderColor: "#1976D2",
+  },
+  groupChipText: {
+    color: "#495057",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  groupChipSelectedText: {
+    color: "#ffffff",
+    fontWeight: "600",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 20,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  cancelText: {
+    color: "#777",
+    fontSize: 16,
+  },
+  confirmText: {
+    color: "#2196F3",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  disabledText: {
+    color: "#bdbdbd",
+  },
+});
+
+export default TagEditModal;
@@ -0,0 +1,90 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import Modal from "react-native-modal";
+import { AntDesign } from "@expo/vector-icons";
+import type { LibraryFormat } from "@/lib/tagLibrary";
+
+interface TagLibraryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onExport: (format: LibraryFormat) => void;
+  onImport: () => void;
+}
+
+const TagLibraryModal: React.FC<TagLibraryModalProps> = ({
+  visible,
+  onClose,
+  onExport,
+  onImport,
+}) => (
+  <Modal isVisible={visible} onBackdropPress={onClose} style={styles.modal}>
+    <View style={styles.container}>
+      <Text style={styles.title}>标签库</Text>
+      <Text style={styles.hintText}>导出全部分组与标签，或从文件导入并按名称合并</Text>
+
+      <TouchableOpacity style={styles.action} onPress={() => onExport("json")}>
+        <AntDesign name="export" size={20} color="#2196F3" />
+        <Text style={styles.actionText}>导出为 JSON</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.action} onPress={() => onExport("csv")}>
+        <AntDesign name="file1" size={20} color="#2196F3" />
+        <Text style={styles.actionText}>导出为 CSV</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.action} onPress={onImport}>
+        <AntDesign name="folder1" size={20} color="#2196F3" />
+        <Text style={styles.actionText}>从文件导入</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+        <Text style={styles.cancelText}>取消</Text>
+      </TouchableOpacity>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  modal: {
+    margin: 0,
+    justifyContent: "flex-end",
+  },
+  container: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 25,
+    borderTopRightRadius: 25,
+    padding: 16,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1a1a1a",
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#999",
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: "#f0f0f0",
+  },
+  actionText: {
+    fontSize: 16,
+    color: "#333",
+    marginLeft: 12,
+  },
+  cancelButton: {
+    alignItems: "center",
+    paddingTop: 16,
+  },
+  cancelText: {
+    color: "#777",
+    fontSize: 16,
+  },
+});
+
+export default TagLibraryModal;
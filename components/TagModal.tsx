@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   View,
   Text,
@@ -6,60 +6,115 @@ import {
   TouchableOpacity,
   TextInput,
   ScrollView,
-  Alert,
+  Platform,
 } from "react-native";
 import Modal from "react-native-modal";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import DateTimePicker, { type DateTimePickerEvent } from "@react-native-community/datetimepicker";
 import { AntDesign } from "@expo/vector-icons";
 import Toast from "react-native-toast-message";
-
-interface Tag {
-  id: string;
-  name: string;
-  groupId?: string;
-  isTimeTag?: boolean;
-}
-
-interface TagGroup {
-  id: string;
-  name: string;
-  tags: Tag[];
-}
+import { formatDate } from "@/lib/dates";
+import {
+  describeGroupRules,
+  getGroupRules,
+  getMaxCount,
+  getRuleViolations,
+} from "@/lib/groupRules";
+import { getProjectGroups } from "@/lib/projects";
+import { settingsStore, tagGroupStore, tagPresetStore } from "@/lib/storage";
+import { buildPresetTags, getPresetTags } from "@/lib/tagPresets";
+import { suggestTags } from "@/lib/tagSuggestions";
+import { addTags, isReplacedBy, sortTagsByGroup } from "@/lib/tags";
+import { createTimeTag, toDateKey } from "@/lib/timeTags";
+import type { ImageItem, Tag, TagPreset, TimeValue } from "@/lib/types";
+import { useStore } from "@/hooks/useStore";
+import { useCurrentProject } from "@/hooks/useCurrentProject";
+import { useWallImages } from "@/hooks/useWallImages";
 
 interface TagModalProps {
   visible: boolean;
   onClose: () => void;
-  image: {
-    id: string;
-    uri: string;
-    tags: Tag[];
-  } | null;
-  onUpdateTags: (tags: Tag[]) => void;
+  // More than one image switches to batch mode
+  images: ImageItem[];
+  // Receives a function that turns an image's current tags into its new tags
+  onUpdateTags: (update: (tags: Tag[]) => Tag[]) => void;
+  // Replaces the default title, e.g. when picking tags for photos not taken yet
+  title?: string;
+  // Fires once the closing animation has finished
+  onModalHide?: () => void;
 }
 
-const TagModal: React.FC<TagModalProps> = ({ visible, onClose, image, onUpdateTags }) => {
-  const [tagGroups, setTagGroups] = useState<TagGroup[]>([]);
+const GRANULARITY_LABELS = { day: "日", month: "月", range: "时间段" };
+
+const TagModal: React.FC<TagModalProps> = ({
+  visible,
+  onClose,
+  images,
+  onUpdateTags,
+  title,
+  onModalHide,
+}) => {
+  const allGroups = useStore(tagGroupStore);
+  const currentProject = useCurrentProject();
+  // Groups that belong to other projects are not offered here
+  const tagGroups = useMemo(
+    () => getProjectGroups(allGroups, currentProject.id),
+    [allGroups, currentProject.id]
+  );
+  // The current project's photos are the history suggestions are drawn from
+  const { images: projectImages } = useWallImages();
+  const { timeTagFormat } = useStore(settingsStore);
+  const presets = useStore(tagPresetStore);
+  // Presets with nothing usable in this project are hidden
+  const availablePresets = useMemo(
+    () =>
+      presets.filter(
+        (preset) => preset.timeGranularity || getPresetTags(preset, tagGroups).length > 0
+      ),
+    [presets, tagGroups]
+  );
+  // Tags every image will carry after saving
   const [selectedTags, setSelectedTags] = useState<Tag[]>([]);
-  const [timeTag, setTimeTag] = useState("");
+  // Tags only some of the images carry; left untouched on save unless toggled
+  const [partialTags, setPartialTags] = useState<Tag[]>([]);
+  const [granularity, setGranularity] = useState<TimeValue["granularity"]>("day");
+  const [timeStart, setTimeStart] = useState(() => new Date());
+  const [timeEnd, setTimeEnd] = useState(() => new Date());
+  const [pickerTarget, setPickerTarget] = useState<"start" | "end" | null>(null);
   const [searchText, setSearchText] = useState("");
+  const isBatch = images.length > 1;
+
+  const tagCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    images.forEach((img) =>
+      img.tags.forEach((tag) => counts.set(tag.id, (counts.get(tag.id) ?? 0) + 1))
+    );
+    return counts;
+  }, [images]);
+
+  // Recomputed as tags are picked so co-occurring tags follow the selection
+  const suggestedTags = useMemo(
+    () => suggestTags(projectImages, images, selectedTags, tagGroups),
+    [projectImages, images, selectedTags, tagGroups]
+  );
 
   useEffect(() => {
     loadTagGroups();
-    if (image?.tags) {
-      setSelectedTags(image.tags);
-    } else {
-      setSelectedTags([]);
-    }
-    setTimeTag("");
+    const uniqueTags = new Map<string, Tag>();
+    images.forEach((img) => img.tags.forEach((tag) => uniqueTags.set(tag.id, tag)));
+    const tags = [...uniqueTags.values()];
+    setSelectedTags(tags.filter((tag) => tagCounts.get(tag.id) === images.length));
+    setPartialTags(tags.filter((tag) => tagCounts.get(tag.id) !== images.length));
+    // Default the picker to the capture date of the photo being tagged
+    const capturedAt = images[0]?.capturedAt;
+    setTimeStart(capturedAt ? new Date(capturedAt) : new Date());
+    setTimeEnd(capturedAt ? new Date(capturedAt) : new Date());
+    setPickerTarget(null);
     setSearchText("");
-  }, [image]);
+  }, [images, tagCounts]);
 
   const loadTagGroups = async () => {
     try {
-      const savedGroups = await AsyncStorage.getItem("tagGroups");
-      if (savedGroups) {
-        setTagGroups(JSON.parse(savedGroups));
-      }
+      await tagGroupStore.load();
     } catch (error) {
       console.error("加载标签组失败:", error);
       Toast.show({
@@ -70,14 +125,27 @@ const TagModal: React.FC<TagModalProps> = ({ visible, onClose, image, onUpdateTa
     }
   };
 
-  const addTimeTag = () => {
-    if (!timeTag.trim()) return;
+  const handlePickDate = (event: DateTimePickerEvent, date?: Date) => {
+    const target = pickerTarget;
+    setPickerTarget(null);
+    if (event.type !== "set" || !date) return;
+    if (target === "end") {
+      setTimeEnd(date);
+    } else {
+      setTimeStart(date);
+    }
+  };
 
-    const timeTagObject: Tag = {
-      id: `time-${Date.now().toString()}`,
-      name: timeTag,
-      isTimeTag: true,
-    };
+  const buildTimeValue = (): TimeValue => {
+    if (granularity !== "range") {
+      return { granularity, start: toDateKey(timeStart, granularity) };
+    }
+    const [from, to] = timeStart <= timeEnd ? [timeStart, timeEnd] : [timeEnd, timeStart];
+    return { granularity, start: toDateKey(from, "day"), end: toDateKey(to, "day") };
+  };
+
+  const addTimeTag = () => {
+    const timeTagObject = createTimeTag(buildTimeValue(), timeTagFormat);
 
     // Check if we already have a time tag
     const existingTimeTagIndex = selectedTags.findIndex((tag) => tag.isTimeTag);
@@ -93,43 +161,110 @@ const TagModal: React.FC<TagModalProps> = ({ visible, onClose, image, onUpdateTa
     }
 
     setSelectedTags(newSelectedTags);
-    setTimeTag("");
+    setPartialTags(partialTags.filter((tag) => !tag.isTimeTag));
     Toast.show({
       type: "success",
       text1: "成功",
-      text2: `已设置时间标签「${timeTag}」`,
+      text2: `已设置时间标签「${timeTagObject.name}」`,
     });
   };
 
+  // Partially applied tags become applied to every image on the first tap
   const toggleTag = (groupId: string, tag: Tag) => {
     const isSelected = selectedTags.some((t) => t.id === tag.id);
-    let newSelectedTags: Tag[];
+    const group = tagGroups.find((g) => g.id === groupId);
+    const rules = group ? getGroupRules(group) : null;
+    // Single-select groups swap the current tag instead of adding a second one
+    const replaced = (t: Tag) =>
+      t.id === tag.id || (!!rules?.singleSelect && t.groupId === groupId);
+
+    if (!isSelected && rules && !rules.singleSelect) {
+      const maxCount = getMaxCount(rules);
+      const count = selectedTags.filter((t) => t.groupId === groupId).length;
+      if (maxCount && count >= maxCount) {
+        Toast.show({
+          type: "error",
+          text1: "超出数量限制",
+          text2: `「${group?.name}」最多只能选择 ${maxCount} 个标签`,
+        });
+        return;
+      }
+    }
+
     if (isSelected) {
-      newSelectedTags = selectedTags.filter((t) => t.id !== tag.id);
+      setSelectedTags(selectedTags.filter((t) => t.id !== tag.id));
     } else {
-      newSelectedTags = [...selectedTags, { ...tag, groupId }];
+      setSelectedTags([...selectedTags.filter((t) => !replaced(t)), { ...tag, groupId }]);
+      setPartialTags(partialTags.filter((t) => !replaced(t)));
     }
-    setSelectedTags(newSelectedTags);
+  };
+
+  // Merges into the current selection; the time tag uses the picked date
+  const applyPreset = (preset: TagPreset) => {
+    const added = buildPresetTags(preset, tagGroups, timeStart, timeTagFormat);
+    const replaced = isReplacedBy(added, tagGroups);
+    setSelectedTags(addTags(selectedTags, added, tagGroups));
+    setPartialTags(partialTags.filter((t) => !replaced(t)));
+    Toast.show({
+      type: "success",
+      text1: "成功",
+      text2: `已应用预设「${preset.name}」`,
+    });
+  };
+
+  const removeTimeTags = () => {
+    setSelectedTags(selectedTags.filter((t) => !t.isTimeTag));
+    setPartialTags(partialTags.filter((t) => !t.isTimeTag));
   };
 
   const handleSave = () => {
-    const tags = selectedTags.sort((a, b) => {
-      if (a.isTimeTag && !b.isTimeTag) return -1;
-      if (!a.isTimeTag && b.isTimeTag) return 1;
-      return a.name.localeCompare(b.name, "zh-CN");
+    // Apply as a delta so batch edits keep each image's partially shared tags
+    const partialIds = new Set(partialTags.map((tag) => tag.id));
+    const update = (tags: Tag[]) =>
+      sortTagsByGroup(
+        [...tags.filter((tag) => partialIds.has(tag.id)), ...selectedTags],
+        tagGroups
+      );
+
+    const violations = images.map((img) => getRuleViolations(update(img.tags), tagGroups));
+    // A batch edit only blocks on groups it pushes over their limit; missing
+    // tags are left for each photo's badge on the wall
+    const blocking = violations.map((list, index) => {
+      if (!isBatch) return list;
+      const before = getRuleViolations(images[index].tags, tagGroups);
+      return list.filter(
+        (violation) =>
+          violation.kind === "tooMany" &&
+          !before.some((old) => old.kind === "tooMany" && old.groupId === violation.groupId)
+      );
     });
+    const invalidCount = blocking.filter((list) => list.length > 0).length;
+    if (invalidCount > 0) {
+      const message = blocking.find((list) => list.length > 0)![0].message;
+      Toast.show({
+        type: "error",
+        text1: "不符合分组规则",
+        text2: isBatch ? `${invalidCount} 张图片不符合：${message}` : message,
+      });
+      return;
+    }
 
-    onUpdateTags(tags);
+    onUpdateTags(update);
     onClose();
+    const incompleteCount = violations.filter((list) => list.length > 0).length;
     Toast.show({
-      type: "success",
+      type: incompleteCount > 0 ? "info" : "success",
       text1: "成功",
-      text2: "标签已保存",
+      text2: !isBatch
+        ? "标签已保存"
+        : incompleteCount > 0
+          ? `已更新 ${images.length} 张图片的标签，其中 ${incompleteCount} 张仍缺少分组标签`
+          : `已更新 ${images.length} 张图片的标签`,
     });
   };
 
   const clearAllTags = () => {
-    if (selectedTags.length === 0) {
+    if (selectedTags.length === 0 && partialTags.length === 0) {
       Toast.show({
         type: "info",
         text1: "提示",
@@ -138,20 +273,21 @@ const TagModal: React.FC<TagModalProps> = ({ visible, onClose, image, onUpdateTa
       return;
     }
 
-    Alert.alert("清空标签", "确定要清空所有已选择的标签吗？", [
-      { text: "取消" },
-      {
-        text: "确定",
-        onPress: () => {
-          setSelectedTags([]);
-          Toast.show({
-            type: "success",
-            text1: "成功",
-            text2: "已清空所有标签",
-          });
-        },
+    // Nothing is saved until handleSave, so undo only needs to restore the draft
+    const previousSelected = selectedTags;
+    const previousPartial = partialTags;
+    setSelectedTags([]);
+    setPartialTags([]);
+    Toast.show({
+      type: "success",
+      text1: "已清空 · 撤销",
+      text2: "已清空所有标签",
+      onPress: () => {
+        Toast.hide();
+        setSelectedTags(previousSelected);
+        setPartialTags(previousPartial);
       },
-    ]);
+    });
   };
 
   // Filter tags based on search input
@@ -167,10 +303,16 @@ const TagModal: React.FC<TagModalProps> = ({ visible, onClose, image, onUpdateTa
   };
 
   return (
-    <Modal isVisible={visible} onBackdropPress={onClose} style={styles.modal}>
+    <Modal
+      isVisible={visible}
+      onBackdropPress={onClose}
+      onModalHide={onModalHide}
+      style={styles.modal}>
       <View style={styles.container}>
         <View style={styles.header}>
-          <Text style={styles.title}>为图片添加标签</Text>
+          <Text style={styles.title}>
+            {title ?? (isBatch ? `为 ${images.length} 张图片添加标签` : "为图片添加标签")}
+          </Text>
           <View style={styles.headerButtons}>
             <TouchableOpacity onPress={clearAllTags} style={styles.clearButton}>
               <Text style={styles.clearButtonText}>清空</Text>
@@ -181,6 +323,22 @@ const TagModal: React.FC<TagModalProps> = ({ visible, onClose, image, onUpdateTa
           </View>
         </View>
 
+        {suggestedTags.length > 0 && (
+          <View style={styles.suggestionSection}>
+            <Text style={styles.sectionTitle}>建议</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {suggestedTags.map((tag) => (
+                <TouchableOpacity
+                  key={tag.id}
+                  style={styles.tag}
+                  onPress={() => toggleTag(tag.groupId!, tag)}>
+                  <Text style={styles.tagText}>{tag.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
         {/* Search Bar */}
         <View style={styles.searchContainer}>
           <View style={styles.searchInputContainer}>
@@ -199,33 +357,92 @@ const TagModal: React.FC<TagModalProps> = ({ visible, onClose, image, onUpdateTa
           </View>
         </View>
 
+        {availablePresets.length > 0 && (
+          <View style={styles.presetSection}>
+            <Text style={styles.sectionTitle}>预设</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {availablePresets.map((preset) => (
+                <TouchableOpacity
+                  key={preset.id}
+                  style={styles.presetChip}
+                  onPress={() => applyPreset(preset)}>
+                  <AntDesign name="appstore1" size={14} color="#1976D2" />
+                  <Text style={styles.presetChipText}>{preset.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
         {/* Time Tag Section */}
         <View style={styles.timeTagSection}>
           <Text style={styles.sectionTitle}>时间标签</Text>
+          <View style={styles.segment}>
+            {(["day", "month", "range"] as const).map((item) => (
+              <TouchableOpacity
+                key={item}
+                style={[styles.segmentItem, granularity === item && styles.segmentItemActive]}
+                onPress={() => setGranularity(item)}>
+                <Text
+                  style={[styles.segmentText, granularity === item && styles.segmentTextActive]}>
+                  {GRANULARITY_LABELS[item]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
           <View style={styles.timeTagInputContainer}>
-            <TextInput
-              style={styles.input}
-              placeholder="输入时间标签 (如: 2024年6月)"
-              value={timeTag}
-              onChangeText={setTimeTag}
-            />
+            <TouchableOpacity style={styles.dateButton} onPress={() => setPickerTarget("start")}>
+              <AntDesign name="calendar" size={16} color="#1976D2" />
+              <Text style={styles.dateButtonText}>
+                {formatDate(
+                  timeStart,
+                  granularity === "month" ? timeTagFormat.month : timeTagFormat.day
+                )}
+              </Text>
+            </TouchableOpacity>
+            {granularity === "range" && (
+              <>
+                <Text style={styles.rangeSeparator}>至</Text>
+                <TouchableOpacity style={styles.dateButton} onPress={() => setPickerTarget("end")}>
+                  <AntDesign name="calendar" size={16} color="#1976D2" />
+                  <Text style={styles.dateButtonText}>
+                    {formatDate(timeEnd, timeTagFormat.day)}
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
             <TouchableOpacity style={styles.addButton} onPress={addTimeTag}>
               <AntDesign name="clockcircleo" size={24} color="white" />
             </TouchableOpacity>
           </View>
+          {pickerTarget && (
+            <DateTimePicker
+              value={pickerTarget === "end" ? timeEnd : timeStart}
+              mode="date"
+              display={Platform.OS === "ios" ? "inline" : "default"}
+              onChange={handlePickDate}
+            />
+          )}
 
           {/* Display selected time tag if exists */}
-          {selectedTags.some((tag) => tag.isTimeTag) && (
+          {[...selectedTags, ...partialTags].some((tag) => tag.isTimeTag) && (
             <View style={styles.selectedTimeTag}>
               <Text style={styles.selectedTimeTagLabel}>当前时间标签:</Text>
-              {selectedTags
+              {[...selectedTags, ...partialTags]
                 .filter((tag) => tag.isTimeTag)
                 .map((tag) => (
-                  <View key={tag.id} style={styles.timeTagBadge}>
-                    <Text style={styles.timeTagText}>{tag.name}</Text>
-                    <TouchableOpacity
-                      onPress={() => setSelectedTags(selectedTags.filter((t) => !t.isTimeTag))}
-                      style={styles.removeTimeTagButton}>
+                  <View
+                    key={tag.id}
+                    style={[
+                      styles.timeTagBadge,
+                      partialTags.includes(tag) && styles.timeTagBadgePartial,
+                    ]}>
+                    <Text style={styles.timeTagText}>
+                      {partialTags.includes(tag)
+                        ? `${tag.name} ${tagCounts.get(tag.id)}/${images.length}`
+                        : tag.name}
+                    </Text>
+                    <TouchableOpacity onPress={removeTimeTags} style={styles.removeTimeTagButton}>
                       <AntDesign name="close" size={16} color="white" />
                     </TouchableOpacity>
                   </View>
@@ -249,25 +466,38 @@ const TagModal: React.FC<TagModalProps> = ({ visible, onClose, image, onUpdateTa
               <View key={group.id} style={styles.groupSection}>
                 <View style={styles.groupHeader}>
                   <Text style={styles.groupName}>{group.name}</Text>
+                  {!!describeGroupRules(getGroupRules(group)) && (
+                    <Text style={styles.groupRules}>
+                      {describeGroupRules(getGroupRules(group))}
+                    </Text>
+                  )}
                 </View>
                 <View style={styles.tagsContainer}>
-                  {group.tags.map((tag) => (
-                    <TouchableOpacity
-                      key={tag.id}
-                      style={[
-                        styles.tag,
-                        selectedTags.some((t) => t.id === tag.id) && styles.tagSelected,
-                      ]}
-                      onPress={() => toggleTag(group.id, tag)}>
-                      <Text
+                  {group.tags.map((tag) => {
+                    const isSelected = selectedTags.some((t) => t.id === tag.id);
+                    const isPartial = partialTags.some((t) => t.id === tag.id);
+                    return (
+                      <TouchableOpacity
+                        key={tag.id}
                         style={[
-                          styles.tagText,
-                          selectedTags.some((t) => t.id === tag.id) && styles.tagSelectedText,
-                        ]}>
-                        {tag.name}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
+                          styles.tag,
+                          isSelected && styles.tagSelected,
+                          isPartial && styles.tagPartial,
+                        ]}
+                        onPress={() => toggleTag(group.id, tag)}>
+                        <Text
+                          style={[
+                            styles.tagText,
+                            isSelected && styles.tagSelectedText,
+                            isPartial && styles.tagPartialText,
+                          ]}>
+                          {isPartial
+                            ? `${tag.name} ${tagCounts.get(tag.id)}/${images.length}`
+                            : tag.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
                 </View>
               </View>
             ))
@@ -352,6 +582,27 @@ const styles = StyleSheet.create({
   clearSearchButton: {
     padding: 4,
   },
+  suggestionSection: {
+    marginBottom: 12,
+  },
+  presetSection: {
+    marginBottom: 16,
+  },
+  presetChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#E3F2FD",
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+  },
+  presetChipText: {
+    marginLeft: 4,
+    fontSize: 14,
+    color: "#1976D2",
+    fontWeight: "500",
+  },
   timeTagSection: {
     marginBottom: 16,
     padding: 12,
@@ -369,16 +620,50 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginBottom: 10,
   },
-  input: {
+  segment: {
+    flexDirection: "row",
+    alignSelf: "flex-start",
+    backgroundColor: "#e9ecef",
+    borderRadius: 16,
+    padding: 2,
+    marginBottom: 10,
+  },
+  segmentItem: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+  },
+  segmentItemActive: {
+    backgroundColor: "#2196F3",
+  },
+  segmentText: {
+    fontSize: 13,
+    color: "#495057",
+  },
+  segmentTextActive: {
+    color: "white",
+    fontWeight: "600",
+  },
+  dateButton: {
     flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
     borderWidth: 1.5,
     borderColor: "#e0e0e0",
     borderRadius: 12,
     padding: 12,
     marginRight: 12,
-    fontSize: 15,
     backgroundColor: "#fafafa",
   },
+  dateButtonText: {
+    marginLeft: 6,
+    fontSize: 15,
+    color: "#333",
+  },
+  rangeSeparator: {
+    marginRight: 12,
+    color: "#666",
+  },
   addButton: {
     backgroundColor: "#2196F3",
     width: 44,
@@ -414,6 +699,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     marginRight: 8,
   },
+  timeTagBadgePartial: {
+    backgroundColor: "#A5D6A7",
+  },
   timeTagText: {
     color: "white",
     fontWeight: "600",
@@ -495,11 +783,18 @@ const styles = StyleSheet.create({
     overflow: "hidden",
   },
   groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
     padding: 10,
     backgroundColor: "#f8f9fa",
     borderBottomWidth: 1,
     borderBottomColor: "#e0e0e0",
   },
+  groupRules: {
+    fontSize: 12,
+    color: "#1976D2",
+  },
   groupName: {
     fontSize: 15,
     fontWeight: "600",
@@ -525,6 +820,11 @@ const styles = StyleSheet.create({
     backgroundColor: "#2196F3",
     borderColor: "#1976D2",
   },
+  tagPartial: {
+    backgroundColor: "#E3F2FD",
+    borderColor: "#90CAF9",
+    borderStyle: "dashed",
+  },
   tagText: {
     color: "#495057",
     fontSize: 14,
@@ -534,6 +834,9 @@ const styles = StyleSheet.create({
     color: "#ffffff",
     fontWeight: "600",
   },
+  tagPartialText: {
+    color: "#1976D2",
+  },
 });
 
 export default TagModal;
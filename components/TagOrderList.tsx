@@ -0,0 +1,130 @@
+import React from "react";
+import { View, Text, StyleSheet, TouchableOpacity } from "react-native";
+import DraggableFlatList, { ScaleDecorator } from "react-native-draggable-flatlist";
+import { AntDesign } from "@expo/vector-icons";
+import type { TagGroup } from "@/lib/types";
+
+interface TagOrderListProps {
+  groups: TagGroup[];
+  onReorderGroups: (groupIds: string[]) => void;
+  onReorderTags: (groupId: string, tagIds: string[]) => void;
+}
+
+/**
+ * Long-press and drag to reorder. Groups are listed vertically with each
+ * group's tags in a horizontal row; the resulting order is the priority used
+ * for saved tags and export filenames.
+ */
+const TagOrderList: React.FC<TagOrderListProps> = ({ groups, onReorderGroups, onReorderTags }) => (
+  <DraggableFlatList
+    data={groups}
+    keyExtractor={(group) => group.id}
+    contentContainerStyle={styles.list}
+    onDragEnd={({ data }) => onReorderGroups(data.map((group) => group.id))}
+    ListHeaderComponent={<Text style={styles.hintText}>长按拖动分组或标签调整顺序</Text>}
+    renderItem={({ item: group, drag, isActive }) => (
+      <ScaleDecorator>
+        <View style={[styles.groupSection, isActive && styles.groupSectionActive]}>
+          <TouchableOpacity style={styles.groupHeader} onLongPress={drag} disabled={isActive}>
+            <AntDesign name="bars" size={18} color="#999" />
+            <Text style={styles.groupName}>{group.name}</Text>
+          </TouchableOpacity>
+          {group.tags.length === 0 ? (
+            <Text style={styles.emptyTagsText}>没有标签</Text>
+          ) : (
+            <DraggableFlatList
+              horizontal
+              data={group.tags}
+              keyExtractor={(tag) => tag.id}
+              contentContainerStyle={styles.tagsContainer}
+              onDragEnd={({ data }) =>
+                onReorderTags(
+                  group.id,
+                  data.map((tag) => tag.id)
+                )
+              }
+              renderItem={({ item: tag, drag: dragTag, isActive: isTagActive }) => (
+                <ScaleDecorator>
+                  <TouchableOpacity
+                    style={[styles.tag, isTagActive && styles.tagActive]}
+                    onLongPress={dragTag}
+                    disabled={isTagActive}>
+                    <Text style={[styles.tagText, isTagActive && styles.tagActiveText]}>
+                      {tag.name}
+                    </Text>
+                  </TouchableOpacity>
+                </ScaleDecorator>
+              )}
+            />
+          )}
+        </View>
+      </ScaleDecorator>
+    )}
+  />
+);
+
+const styles = StyleSheet.create({
+  list: {
+    padding: 16,
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#999",
+    marginBottom: 12,
+  },
+  groupSection: {
+    marginBottom: 16,
+    backgroundColor: "#fff",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e9ecef",
+    overflow: "hidden",
+  },
+  groupSectionActive: {
+    borderColor: "#2196F3",
+    elevation: 5,
+  },
+  groupHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 12,
+    backgroundColor: "#f8f9fa",
+  },
+  groupName: {
+    fontSize: 17,
+    fontWeight: "600",
+    color: "#2c3e50",
+    marginLeft: 8,
+  },
+  emptyTagsText: {
+    color: "#999",
+    fontStyle: "italic",
+    padding: 12,
+  },
+  tagsContainer: {
+    padding: 12,
+  },
+  tag: {
+    backgroundColor: "#f1f3f5",
+    borderRadius: 20,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    marginRight: 6,
+    borderWidth: 1,
+    borderColor: "#e9ecef",
+  },
+  tagActive: {
+    backgroundColor: "#2196F3",
+    borderColor: "#1976D2",
+  },
+  tagText: {
+    color: "#495057",
+    fontSize: 14,
+    fontWeight: "500",
+  },
+  tagActiveText: {
+    color: "#ffffff",
+  },
+});
+
+export default TagOrderList;
@@ -0,0 +1,359 @@
+import React, { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+} from "react-native";
+import Modal from "react-native-modal";
+import { AntDesign } from "@expo/vector-icons";
+import Toast from "react-native-toast-message";
+import { tagPresetStore } from "@/lib/storage";
+import { TIME_GRANULARITY_LABELS, describePreset } from "@/lib/tagPresets";
+import { normalizeName } from "@/lib/tags";
+import type { TagGroup, TagPreset } from "@/lib/types";
+import { useStore } from "@/hooks/useStore";
+
+interface TagPresetModalProps {
+  visible: boolean;
+  // Groups whose tags can be picked; tags of other groups stay in a preset untouched
+  groups: TagGroup[];
+  onClose: () => void;
+}
+
+const TIME_OPTIONS = [undefined, "day", "month"] as const;
+
+const TagPresetModal: React.FC<TagPresetModalProps> = ({ visible, groups, onClose }) => {
+  const presets = useStore(tagPresetStore);
+  // null while creating a new preset
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [timeGranularity, setTimeGranularity] = useState<TagPreset["timeGranularity"]>();
+
+  useEffect(() => {
+    if (visible) resetForm();
+  }, [visible]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setTagIds([]);
+    setTimeGranularity(undefined);
+  };
+
+  const error =
+    name.trim() &&
+    presets.some(
+      (preset) => preset.id !== editingId && normalizeName(preset.name) === normalizeName(name)
+    )
+      ? `预设「${name.trim()}」已存在`
+      : null;
+  const canSubmit = !!name.trim() && (tagIds.length > 0 || !!timeGranularity) && !error;
+
+  const startEdit = (preset: TagPreset) => {
+    setEditingId(preset.id);
+    setName(preset.name);
+    setTagIds(preset.tagIds);
+    setTimeGranularity(preset.timeGranularity);
+  };
+
+  const toggleTag = (tagId: string) => {
+    setTagIds((current) =>
+      current.includes(tagId) ? current.filter((id) => id !== tagId) : [...current, tagId]
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    const draft: Omit<TagPreset, "id"> = {
+      name: name.trim(),
+      tagIds,
+      ...(timeGranularity ? { timeGranularity } : {}),
+    };
+    try {
+      if (editingId) {
+        await tagPresetStore.update((current) =>
+          current.map((preset) => (preset.id === editingId ? { id: preset.id, ...draft } : preset))
+        );
+      } else {
+        await tagPresetStore.update((current) => [
+          ...current,
+          { id: Date.now().toString(), ...draft },
+        ]);
+      }
+      Toast.show({
+        type: "success",
+        text1: "成功",
+        text2: editingId ? `已更新预设「${draft.name}」` : `已新建预设「${draft.name}」`,
+      });
+      resetForm();
+    } catch (error) {
+      console.error("保存预设失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "保存预设失败",
+      });
+    }
+  };
+
+  const deletePreset = async (preset: TagPreset) => {
+    try {
+      await tagPresetStore.update((current) => current.filter((p) => p.id !== preset.id));
+      if (editingId === preset.id) resetForm();
+    } catch (error) {
+      console.error("删除预设失败:", error);
+      Toast.show({
+        type: "error",
+        text1: "错误",
+        text2: "删除预设失败",
+      });
+    }
+  };
+
+  const confirmDelete = (preset: TagPreset) => {
+    Alert.alert("删除预设", `确定要删除预设「${preset.name}」吗？已添加到图片上的标签不受影响`, [
+      { text: "取消", style: "cancel" },
+      { text: "删除", style: "destructive", onPress: () => deletePreset(preset) },
+    ]);
+  };
+
+  return (
+    <Modal isVisible={visible} onBackdropPress={onClose} avoidKeyboard>
+      <View style={styles.container}>
+        <Text style={styles.title}>标签预设</Text>
+
+        <ScrollView style={styles.list}>
+          {presets.length === 0 ? (
+            <Text style={styles.emptyText}>还没有预设，可以把常一起使用的标签保存为预设</Text>
+          ) : (
+            presets.map((preset) => (
+              <View
+                key={preset.id}
+                style={[styles.presetRow, editingId === preset.id && styles.presetRowActive]}>
+                <View style={styles.presetInfo}>
+                  <Text style={styles.presetName}>{preset.name}</Text>
+                  <Text style={styles.presetMeta} numberOfLines={1}>
+                    {describePreset(preset, groups) || "当前项目中没有可用的标签"}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.iconButton} onPress={() => startEdit(preset)}>
+                  <AntDesign name="edit" size={18} color="#2196F3" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => confirmDelete(preset)}>
+                  <AntDesign name="delete" size={18} color="#ff4444" />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </ScrollView>
+
+        <Text style={styles.sectionTitle}>{editingId ? "编辑预设" : "新建预设"}</Text>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="预设名称"
+        />
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <ScrollView style={styles.tagPicker}>
+          {groups.map((group) => (
+            <View key={group.id} style={styles.groupSection}>
+              <Text style={styles.groupName}>{group.name}</Text>
+              <View style={styles.tagsContainer}>
+                {group.tags.map((tag) => {
+                  const isSelected = tagIds.includes(tag.id);
+                  return (
+                    <TouchableOpacity
+                      key={tag.id}
+                      style={[styles.chip, isSelected && styles.chipSelected]}
+                      onPress={() => toggleTag(tag.id)}>
+                      <Text style={[styles.chipText, isSelected && styles.chipSelectedText]}>
+                        {tag.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          ))}
+        </ScrollView>
+
+        <View style={styles.timeRow}>
+          <Text style={styles.timeLabel}>时间标签</Text>
+          {TIME_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option ?? "none"}
+              style={[styles.chip, timeGranularity === option && styles.chipSelected]}
+              onPress={() => setTimeGranularity(option)}>
+              <Text
+                style={[styles.chipText, timeGranularity === option && styles.chipSelectedText]}>
+                {option ? TIME_GRANULARITY_LABELS[option] : "不添加"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={editingId ? resetForm : onClose} style={styles.actionButton}>
+            <Text style={styles.cancelText}>{editingId ? "取消编辑" : "关闭"}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleSubmit}
+            style={styles.actionButton}
+            disabled={!canSubmit}>
+            <Text style={[styles.confirmText, !canSubmit && styles.disabledText]}>
+              {editingId ? "保存" : "新建"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 20,
+    maxHeight: "90%",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1a1a1a",
+    marginBottom: 12,
+  },
+  list: {
+    flexGrow: 0,
+    maxHeight: 180,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#999",
+  },
+  presetRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    marginBottom: 6,
+    backgroundColor: "#f5f5f5",
+  },
+  presetRowActive: {
+    backgroundColor: "#E3F2FD",
+  },
+  presetInfo: {
+    flex: 1,
+  },
+  presetName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  presetMeta: {
+    fontSize: 12,
+    color: "#999",
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: "#fafafa",
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#ff4444",
+    marginTop: 6,
+  },
+  tagPicker: {
+    flexGrow: 0,
+    maxHeight: 220,
+    marginTop: 10,
+  },
+  groupSection: {
+    marginBottom: 8,
+  },
+  groupName: {
+    fontSize: 13,
+    color: "#777",
+    marginBottom: 4,
+  },
+  tagsContainer: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    backgroundColor: "#f0f0f0",
+    borderRadius: 14,
+    paddingVertical: 5,
+    paddingHorizontal: 10,
+    margin: 3,
+  },
+  chipSelected: {
+    backgroundColor: "#2196F3",
+  },
+  chipText: {
+    fontSize: 13,
+    color: "#333",
+  },
+  chipSelectedText: {
+    color: "white",
+  },
+  timeRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    marginTop: 10,
+  },
+  timeLabel: {
+    fontSize: 13,
+    color: "#777",
+    marginRight: 4,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 20,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  cancelText: {
+    color: "#777",
+    fontSize: 16,
+  },
+  confirmText: {
+    color: "#2196F3",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  disabledText: {
+    color: "#bdbdbd",
+  },
+});
+
+export default TagPresetModal;
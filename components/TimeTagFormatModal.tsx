@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from "react-native";
+import Modal from "react-native-modal";
+import { formatTimeValue, toDateKey } from "@/lib/timeTags";
+import type { TimeTagFormat } from "@/lib/types";
+
+interface TimeTagFormatModalProps {
+  visible: boolean;
+  format: TimeTagFormat;
+  onClose: () => void;
+  onSubmit: (format: TimeTagFormat) => void;
+}
+
+const TimeTagFormatModal: React.FC<TimeTagFormatModalProps> = ({
+  visible,
+  format,
+  onClose,
+  onSubmit,
+}) => {
+  const [draft, setDraft] = useState(format);
+
+  useEffect(() => {
+    setDraft(format);
+  }, [format, visible]);
+
+  const isValid = !!draft.day.trim() && !!draft.month.trim();
+  const today = new Date();
+
+  return (
+    <Modal isVisible={visible} onBackdropPress={onClose} avoidKeyboard>
+      <View style={styles.container}>
+        <Text style={styles.title}>时间标签格式</Text>
+        <Text style={styles.hintText}>可用占位符：YYYY 年、M/MM 月、D/DD 日</Text>
+
+        <Text style={styles.sectionTitle}>按日</Text>
+        <TextInput
+          style={styles.input}
+          value={draft.day}
+          onChangeText={(day) => setDraft({ ...draft, day })}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Text style={styles.previewText}>
+          {formatTimeValue({ granularity: "day", start: toDateKey(today, "day") }, draft)}
+        </Text>
+
+        <Text style={styles.sectionTitle}>按月</Text>
+        <TextInput
+          style={styles.input}
+          value={draft.month}
+          onChangeText={(month) => setDraft({ ...draft, month })}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Text style={styles.previewText}>
+          {formatTimeValue({ granularity: "month", start: toDateKey(today, "month") }, draft)}
+        </Text>
+
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={onClose} style={styles.actionButton}>
+            <Text style={styles.cancelText}>取消</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onSubmit(draft)}
+            style={styles.actionButton}
+            disabled={!isValid}>
+            <Text style={[styles.confirmText, !isValid && styles.disabledText]}>保存</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#1a1a1a",
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: "#999",
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    backgroundColor: "#fafafa",
+  },
+  previewText: {
+    fontSize: 13,
+    color: "#1976D2",
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 20,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginLeft: 8,
+  },
+  cancelText: {
+    color: "#777",
+    fontSize: 16,
+  },
+  confirmText: {
+    color: "#2196F3",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  disabledText: {
+    color: "#bdbdbd",
+  },
+});
+
+export default TimeTagFormatModal;
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { StyleSheet } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+
+interface ZoomableImageProps {
+  uri: string;
+  width: number;
+  height: number;
+  onTap: () => void;
+  // Lets the pager stop swiping while the photo is zoomed in
+  onZoomChange: (zoomed: boolean) => void;
+}
+
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+
+const ZoomableImage: React.FC<ZoomableImageProps> = ({
+  uri,
+  width,
+  height,
+  onTap,
+  onZoomChange,
+}) => {
+  const [isZoomed, setZoomed] = useState(false);
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const reportZoom = (zoomed: boolean) => {
+    setZoomed(zoomed);
+    onZoomChange(zoomed);
+  };
+
+  // Keeps the edges of a zoomed photo from being dragged past the screen edges
+  const clamp = (offset: number, currentScale: number, size: number) => {
+    "worklet";
+    const limit = ((currentScale - 1) * size) / 2;
+    return Math.min(limit, Math.max(-limit, offset));
+  };
+
+  const zoomTo = (nextScale: number) => {
+    "worklet";
+    scale.value = withTiming(nextScale);
+    savedScale.value = nextScale;
+    const nextX = clamp(translateX.value, nextScale, width);
+    const nextY = clamp(translateY.value, nextScale, height);
+    translateX.value = withTiming(nextX);
+    translateY.value = withTiming(nextY);
+    savedTranslateX.value = nextX;
+    savedTranslateY.value = nextY;
+    runOnJS(reportZoom)(nextScale > 1);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(MAX_SCALE, Math.max(0.5, savedScale.value * event.scale));
+    })
+    .onEnd(() => {
+      zoomTo(Math.max(1, scale.value));
+    });
+
+  // Only pans while zoomed so that swipes reach the pager otherwise
+  const pan = Gesture.Pan()
+    .enabled(isZoomed)
+    .averageTouches(true)
+    .onUpdate((event) => {
+      translateX.value = clamp(savedTranslateX.value + event.translationX, scale.value, width);
+      translateY.value = clamp(savedTranslateY.value + event.translationY, scale.value, height);
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      zoomTo(savedScale.value > 1 ? 1 : DOUBLE_TAP_SCALE);
+    });
+
+  const singleTap = Gesture.Tap().onEnd(() => {
+    runOnJS(onTap)();
+  });
+
+  const gesture = Gesture.Simultaneous(pinch, pan, Gesture.Exclusive(doubleTap, singleTap));
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <Animated.Image
+        source={{ uri }}
+        style={[styles.image, { width, height }, animatedStyle]}
+        resizeMode="contain"
+      />
+    </GestureDetector>
+  );
+};
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: "black",
+  },
+});
+
+export default ZoomableImage;
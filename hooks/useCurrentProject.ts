@@ -0,0 +1,12 @@
+import { getCurrentProject } from "@/lib/projects";
+import { projectStore, settingsStore } from "@/lib/storage";
+import { useStore } from "@/hooks/useStore";
+
+/**
+ * The project selected in the home screen's switcher.
+ */
+export function useCurrentProject() {
+  const projects = useStore(projectStore);
+  const { currentProjectId } = useStore(settingsStore);
+  return getCurrentProject(projects, currentProjectId);
+}
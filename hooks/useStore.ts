@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+
+import type { Store } from "@/lib/storage";
+
+/**
+ * Subscribes a component to a persisted store and re-renders on every change.
+ */
+export function useStore<T>(store: Store<T>) {
+  const [value, setValue] = useState<T>(store.get);
+
+  useEffect(() => {
+    setValue(store.get());
+    return store.subscribe(setValue);
+  }, [store]);
+
+  return value;
+}
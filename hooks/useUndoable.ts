@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+
+import { getUndoable, subscribeHistory } from "@/lib/history";
+
+/**
+ * The operation the next undo would revert, kept up to date as the history
+ * changes.
+ */
+export function useUndoable() {
+  const [operation, setOperation] = useState(getUndoable);
+
+  useEffect(() => {
+    setOperation(getUndoable());
+    return subscribeHistory(() => setOperation(getUndoable()));
+  }, []);
+
+  return operation;
+}
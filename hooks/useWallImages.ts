@@ -0,0 +1,24 @@
+import { useMemo } from "react";
+
+import { applyImageFilter } from "@/lib/imageFilter";
+import { getProjectImages } from "@/lib/projects";
+import { imageStore, projectStore, settingsStore } from "@/lib/storage";
+import { useStore } from "@/hooks/useStore";
+import { useCurrentProject } from "@/hooks/useCurrentProject";
+
+/**
+ * The current project's photos, and the subset the wall filter leaves visible
+ * in the order the wall shows them.
+ */
+export function useWallImages() {
+  const allImages = useStore(imageStore);
+  const projects = useStore(projectStore);
+  const currentProject = useCurrentProject();
+  const { wallFilter } = useStore(settingsStore);
+  const images = useMemo(
+    () => getProjectImages(allImages, projects, currentProject.id),
+    [allImages, projects, currentProject.id]
+  );
+  const visibleImages = useMemo(() => applyImageFilter(images, wallFilter), [images, wallFilter]);
+  return { images, visibleImages };
+}
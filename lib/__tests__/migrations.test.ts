@@ -0,0 +1,61 @@
+import { CURRENT_SCHEMA_VERSION, migrateData } from "@/lib/migrations";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+const v0Groups = [
+  {
+    id: "g1",
+    name: "地点",
+    tags: [
+      { id: "t1", name: "客厅" },
+      { id: "t2", name: "卧室" },
+    ],
+  },
+];
+
+const v0Images = [
+  {
+    id: "1",
+    uri: "file:///photos/1.jpg",
+    tags: [
+      { id: "t1", name: "客厅" },
+      { id: "time-2024-06", name: "2024年6月", groupId: "time" },
+      { id: "time-note", name: "去年夏天", groupId: "time" },
+    ],
+  },
+];
+
+describe("migrateData", () => {
+  const { images, tagGroups } = migrateData({ images: v0Images, tagGroups: v0Groups }, 0) as {
+    images: typeof v0Images;
+    tagGroups: typeof v0Groups;
+  };
+  const [livingRoom, month, note] = images[0].tags;
+
+  it("fills in the group of tags that lack one", () => {
+    expect(tagGroups[0].tags).toEqual([
+      { id: "t1", name: "客厅", groupId: "g1" },
+      { id: "t2", name: "卧室", groupId: "g1" },
+    ]);
+    expect(livingRoom).toEqual({ id: "t1", name: "客厅", groupId: "g1" });
+  });
+
+  it("marks time- tags as time tags without a group", () => {
+    expect(month).toMatchObject({ id: "time-2024-06", isTimeTag: true });
+    expect(month).not.toHaveProperty("groupId");
+    expect(note).toMatchObject({ id: "time-note", isTimeTag: true });
+    expect(note).not.toHaveProperty("groupId");
+  });
+
+  it("parses free-text time tags into a structured date", () => {
+    expect(month).toHaveProperty("time", { granularity: "month", start: "2024-06" });
+    expect(note).not.toHaveProperty("time");
+  });
+
+  it("leaves data that is already current untouched", () => {
+    const data = { images: v0Images, tagGroups: v0Groups };
+    expect(migrateData(data, CURRENT_SCHEMA_VERSION)).toBe(data);
+  });
+});
@@ -0,0 +1,273 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { unzip, zip } from "react-native-zip-archive";
+import { formatDate } from "@/lib/dates";
+import { CURRENT_SCHEMA_VERSION, migrateData } from "@/lib/migrations";
+import { createThumbnail, deletePhotoFile, getExtension, persistPhoto } from "@/lib/photoFiles";
+import { DEFAULT_PROJECT, DEFAULT_PROJECT_ID } from "@/lib/projects";
+import {
+  imageStore,
+  isRecord,
+  parseImageItem,
+  parseProject,
+  parseTagGroup,
+  projectStore,
+  tagGroupStore,
+  trashStore,
+} from "@/lib/storage";
+import { findGroupByName, mergeLibrary, toLibraryGroups } from "@/lib/tagLibrary";
+import { normalizeName, sortTagsByGroup } from "@/lib/tags";
+import type { ImageItem, Project, Tag, TagGroup } from "@/lib/types";
+import { EXPORT_DIR, toNativePath } from "@/lib/zipExport";
+
+const BACKUP_FORMAT = 1;
+const MANIFEST_FILE = "backup.json";
+
+export type RestoreMode = "replace" | "merge";
+
+/**
+ * An extracted, validated backup. Image URIs already point at the extracted
+ * files; restoring copies them into the app's photo directory.
+ */
+export interface BackupContents {
+  dir: string;
+  createdAt: number;
+  images: ImageItem[];
+  tagGroups: TagGroup[];
+  projects: Project[];
+  // Images listed in the backup whose file is not in the archive
+  missingFiles: number;
+}
+
+/**
+ * Bundles every image file together with the "images", "tagGroups" and
+ * "projects" stores into one zip in `EXPORT_DIR`. Inside the archive image
+ * URIs are relative to the archive root so they can be remapped on any device.
+ */
+export const createBackup = async (
+  images: ImageItem[],
+  tagGroups: TagGroup[],
+  projects: Project[]
+) => {
+  const stagingDir = `${FileSystem.cacheDirectory}backup_${Date.now()}/`;
+  await FileSystem.makeDirectoryAsync(`${stagingDir}photos/`, { intermediates: true });
+  try {
+    const entries: ImageItem[] = [];
+    let skipped = 0;
+    for (const image of images) {
+      const file = `photos/${image.id}.${getExtension(image.uri)}`;
+      try {
+        await FileSystem.copyAsync({ from: image.uri, to: `${stagingDir}${file}` });
+        entries.push({ ...image, uri: file, thumbnailUri: undefined, missing: undefined });
+      } catch (error) {
+        console.warn(`备份图片失败: ${image.uri}`, error);
+        skipped++;
+      }
+    }
+
+    const manifest = {
+      format: BACKUP_FORMAT,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      createdAt: Date.now(),
+      images: entries,
+      tagGroups,
+      projects,
+    };
+    await FileSystem.writeAsStringAsync(`${stagingDir}${MANIFEST_FILE}`, JSON.stringify(manifest));
+
+    await FileSystem.makeDirectoryAsync(EXPORT_DIR, { intermediates: true }).catch(() => undefined);
+    const target = `${EXPORT_DIR}picTaging_backup_${formatDate(new Date(), "YYYYMMDD_HHmmss")}.zip`;
+    await zip(toNativePath(stagingDir), toNativePath(target));
+    return { uri: target, count: entries.length, skipped };
+  } finally {
+    await FileSystem.deleteAsync(stagingDir, { idempotent: true });
+  }
+};
+
+export const pickBackupFile = async () => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/zip", "application/x-zip-compressed"],
+    copyToCacheDirectory: true,
+  });
+  return result.canceled ? null : result.assets[0].uri;
+};
+
+const parseManifest = async (dir: string) => {
+  const manifestUri = `${dir}${MANIFEST_FILE}`;
+  if (!(await FileSystem.getInfoAsync(manifestUri)).exists) {
+    throw new Error("压缩包中没有 backup.json，不是有效的备份文件");
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await FileSystem.readAsStringAsync(manifestUri));
+  } catch {
+    throw new Error("备份数据已损坏，无法读取");
+  }
+  if (
+    !isRecord(raw) ||
+    raw.format !== BACKUP_FORMAT ||
+    !Array.isArray(raw.images) ||
+    !Array.isArray(raw.tagGroups)
+  ) {
+    throw new Error("备份文件格式无效");
+  }
+  const schemaVersion = typeof raw.schemaVersion === "number" ? raw.schemaVersion : 0;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error("该备份来自更新版本的应用，请先升级后再恢复");
+  }
+  // 旧版本的备份先按本地数据的迁移规则升级
+  const data = migrateData({ images: raw.images, tagGroups: raw.tagGroups }, schemaVersion);
+  return {
+    createdAt: typeof raw.createdAt === "number" ? raw.createdAt : 0,
+    images: (data.images as unknown[])
+      .map(parseImageItem)
+      .filter((image): image is ImageItem => image !== null),
+    tagGroups: (data.tagGroups as unknown[])
+      .map(parseTagGroup)
+      .filter((group): group is TagGroup => group !== null),
+    // 早于项目功能的备份没有项目列表，图片都归入默认项目
+    projects: (Array.isArray(raw.projects) ? raw.projects : [])
+      .map(parseProject)
+      .filter((project): project is Project => project !== null),
+  };
+};
+
+/**
+ * Extracts and validates a backup archive. Throws with a user-facing message
+ * when the archive is not a backup, is damaged or comes from a newer app.
+ */
+export const readBackup = async (archiveUri: string): Promise<BackupContents> => {
+  const dir = `${FileSystem.cacheDirectory}restore_${Date.now()}/`;
+  try {
+    await unzip(toNativePath(archiveUri), toNativePath(dir));
+    const { createdAt, images, tagGroups, projects } = await parseManifest(dir);
+
+    // 相对路径映射到解压目录，不允许指向目录之外
+    const remapped: ImageItem[] = [];
+    for (const image of images) {
+      const uri = `${dir}${image.uri}`;
+      if (!image.uri.includes("..") && (await FileSystem.getInfoAsync(uri)).exists) {
+        remapped.push({ ...image, uri });
+      }
+    }
+    return {
+      dir,
+      createdAt,
+      images: remapped,
+      tagGroups,
+      projects,
+      missingFiles: images.length - remapped.length,
+    };
+  } catch (error) {
+    await FileSystem.deleteAsync(dir, { idempotent: true });
+    throw error;
+  }
+};
+
+export const discardBackup = (backup: BackupContents) =>
+  FileSystem.deleteAsync(backup.dir, { idempotent: true });
+
+const persistImages = async (images: ImageItem[]) => {
+  const persisted: ImageItem[] = [];
+  for (const image of images) {
+    try {
+      const uri = await persistPhoto(image.uri, image.id);
+      persisted.push({ ...image, uri, thumbnailUri: await createThumbnail(uri, image.id) });
+    } catch (error) {
+      console.warn(`恢复图片失败: ${image.uri}`, error);
+    }
+  }
+  return persisted;
+};
+
+// 备份中的标签 id 与本地不同，按分组所属项目、分组名与标签名对应到合并后的标签
+const remapTags = (tags: Tag[], backupGroups: TagGroup[], groups: TagGroup[]) => {
+  const backupGroupsById = new Map(backupGroups.map((group) => [group.id, group]));
+  const remapped = tags.flatMap((tag) => {
+    if (tag.isTimeTag) return [tag];
+    const source = tag.groupId ? backupGroupsById.get(tag.groupId) : undefined;
+    const group = source && findGroupByName(groups, source.name, source.projectId);
+    const match = group?.tags.find((t) => normalizeName(t.name) === normalizeName(tag.name));
+    return match && group ? [{ ...match, groupId: group.id }] : [];
+  });
+  return sortTagsByGroup(remapped, groups);
+};
+
+// 项目按 id 或名称对应到本地项目，返回合并后的列表与备份项目 id 的映射
+const mergeProjects = (projects: Project[], incoming: Project[]) => {
+  const merged = [...projects];
+  const idMap = new Map<string, string>();
+  incoming.forEach((project) => {
+    const match = merged.find(
+      (p) => p.id === project.id || normalizeName(p.name) === normalizeName(project.name)
+    );
+    if (!match) merged.push(project);
+    idMap.set(project.id, match?.id ?? project.id);
+  });
+  return { projects: merged, idMap };
+};
+
+/**
+ * Restores an extracted backup. `replace` swaps the whole library for the
+ * backup; `merge` adds tag groups and projects by name and only the photos
+ * that are not on the wall yet. Returns how many photos were added and how many were skipped.
+ */
+export const restoreBackup = async (backup: BackupContents, mode: RestoreMode) => {
+  try {
+    const current = await imageStore.load();
+
+    if (mode === "replace") {
+      const restored = await persistImages(backup.images);
+      await tagGroupStore.set(backup.tagGroups);
+      await projectStore.set(
+        backup.projects.some((project) => project.id === DEFAULT_PROJECT_ID)
+          ? backup.projects
+          : [DEFAULT_PROJECT, ...backup.projects]
+      );
+      await imageStore.set(restored);
+      // 最近删除中同 id 的图片文件已被覆盖，只移除条目，文件归恢复的图片所有
+      const restoredIds = new Set(restored.map((image) => image.id));
+      await trashStore.update((items) => items.filter((item) => !restoredIds.has(item.image.id)));
+      // 同 id 的图片与缩略图已被备份文件覆盖，不能删除
+      const restoredFiles = new Set(restored.flatMap((image) => [image.uri, image.thumbnailUri]));
+      await Promise.all(
+        current
+          .flatMap((image) => [image.uri, image.thumbnailUri])
+          .filter((uri): uri is string => !!uri && !restoredFiles.has(uri))
+          .map(deletePhotoFile)
+      );
+      return { added: restored.length, skipped: backup.images.length - restored.length };
+    }
+
+    // 最近删除中的图片仍占用自己的 id 与文件路径
+    const trashed = (await trashStore.load()).map((item) => item.image);
+    const existingIds = new Set([...current, ...trashed].map((image) => image.id));
+    const existingSources = new Set(current.map((image) => image.sourceId).filter(Boolean));
+    const fresh = backup.images.filter(
+      (image) =>
+        !existingIds.has(image.id) && !(image.sourceId && existingSources.has(image.sourceId))
+    );
+    const { projects, idMap } = mergeProjects(await projectStore.load(), backup.projects);
+    // 项目专属分组按对应的本地项目分别合并，保持专属
+    const backupGroups = backup.tagGroups.map((group) => ({
+      ...group,
+      projectId: group.projectId && idMap.get(group.projectId),
+    }));
+    let groups = await tagGroupStore.load();
+    new Set(backupGroups.map((group) => group.projectId)).forEach((projectId) => {
+      const scoped = backupGroups.filter((group) => group.projectId === projectId);
+      groups = mergeLibrary(groups, toLibraryGroups(scoped), projectId).groups;
+    });
+    const added = (await persistImages(fresh)).map((image) => ({
+      ...image,
+      tags: remapTags(image.tags, backupGroups, groups),
+      projectId: image.projectId && idMap.get(image.projectId),
+    }));
+    await tagGroupStore.set(groups);
+    await projectStore.set(projects);
+    await imageStore.update((images) => [...images, ...added]);
+    return { added: added.length, skipped: backup.images.length - added.length };
+  } finally {
+    await discardBackup(backup);
+  }
+};
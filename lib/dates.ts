@@ -0,0 +1,48 @@
+import type { ImageItem } from "@/lib/types";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Formats a date with a small moment-style pattern: YYYY, MM, M, DD, D, HH,
+ * mm and ss. Anything else in the pattern is copied as-is.
+ */
+export const formatDate = (date: Date, pattern: string) =>
+  pattern.replace(/YYYY|MM|M|DD|D|HH|mm|ss/g, (token) => {
+    switch (token) {
+      case "YYYY":
+        return String(date.getFullYear());
+      case "MM":
+        return pad(date.getMonth() + 1);
+      case "M":
+        return String(date.getMonth() + 1);
+      case "DD":
+        return pad(date.getDate());
+      case "D":
+        return String(date.getDate());
+      case "HH":
+        return pad(date.getHours());
+      case "mm":
+        return pad(date.getMinutes());
+      default:
+        return pad(date.getSeconds());
+    }
+  });
+
+// 优先使用拍摄时间；旧数据没有 createdAt，但 id 由创建时的时间戳生成
+export const getImageDate = (image: ImageItem) =>
+  new Date(image.capturedAt ?? image.createdAt ?? (parseInt(image.id, 10) || 0));
+
+/**
+ * Reads a year with optional month and day out of free-text time tags such as
+ * "2024年6月", "2024-06-01" or "2024.6" and returns a sortable key like
+ * "2024-06" or "2024-06-01". Returns null when no year can be found.
+ */
+export const parseDateKey = (text: string) => {
+  const match = /(\d{4})\s*(?:[年\-/.]\s*(\d{1,2})\s*(?:[月\-/.]\s*(\d{1,2}))?)?/.exec(text);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  return [year, month, day]
+    .filter(Boolean)
+    .map((part) => part.padStart(2, "0"))
+    .join("-");
+};
@@ -0,0 +1,221 @@
+import * as FileSystem from "expo-file-system";
+import * as MediaLibrary from "expo-media-library";
+import { formatDate } from "@/lib/dates";
+import { createFileNameGenerator } from "@/lib/fileNameTemplate";
+import { getExtension } from "@/lib/photoFiles";
+import type { ImageItem, TagGroup } from "@/lib/types";
+import { buildManifestEntry, zipWithManifest } from "@/lib/zipExport";
+
+export type ExportMode = "album" | "zip";
+
+const BATCH_SIZE = 10; // 每批添加到相册的图片数量
+
+export interface ExportFailure {
+  image: ImageItem;
+  fileName: string;
+  reason: string;
+}
+
+export interface ExportJobState {
+  status: "idle" | "running" | "cancelled" | "finished" | "error";
+  total: number;
+  succeeded: number;
+  currentFile?: string;
+  failures: ExportFailure[];
+  // ZIP 模式完成后的压缩包路径
+  resultUri?: string;
+  error?: string;
+}
+
+export interface ExportJob {
+  mode: ExportMode;
+  getState: () => ExportJobState;
+  subscribe: (listener: (state: ExportJobState) => void) => () => void;
+  // 处理所有尚未完成的图片；取消后再次调用即从中断处继续
+  run: () => Promise<void>;
+  cancel: () => void;
+  retryFailed: () => Promise<void>;
+  dispose: () => Promise<void>;
+}
+
+interface ExportJobOptions {
+  mode: ExportMode;
+  images: ImageItem[];
+  groups: TagGroup[];
+  template: string;
+  // Gallery album for `album` mode; also names the zip archive
+  albumName: string;
+}
+
+const describeError = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/**
+ * Exports a fixed list of images one by one so progress can be reported per
+ * image. Each image is `pending` until it succeeds or fails; cancelling stops
+ * after the current image and leaves the rest pending for a later `run`.
+ */
+export const createExportJob = ({
+  mode,
+  images,
+  groups,
+  template,
+  albumName,
+}: ExportJobOptions): ExportJob => {
+  const generateFileName = createFileNameGenerator(template, groups);
+  // 文件名在任务创建时一次性生成，重试时保持不变
+  const fileNames = new Map(images.map((img) => [img.id, generateFileName(img)]));
+  const pending = new Set(images.map((img) => img.id));
+  const stagingDir = `${FileSystem.cacheDirectory}export_${Date.now()}/`;
+  const archiveName = `${albumName}_${formatDate(new Date(), "YYYYMMDD_HHmmss")}`;
+  const listeners = new Set<(state: ExportJobState) => void>();
+  const exported = new Set<string>();
+  let cancelRequested = false;
+  let album: MediaLibrary.Album | null = null;
+  let state: ExportJobState = { status: "idle", total: images.length, succeeded: 0, failures: [] };
+
+  const setState = (changes: Partial<ExportJobState>) => {
+    state = { ...state, ...changes };
+    listeners.forEach((listener) => listener(state));
+  };
+
+  const fail = (image: ImageItem, reason: string) => {
+    pending.delete(image.id);
+    setState({
+      failures: [
+        ...state.failures.filter((f) => f.image.id !== image.id),
+        { image, fileName: fileNames.get(image.id) ?? image.id, reason },
+      ],
+    });
+  };
+
+  const succeed = (imageIds: string[]) => {
+    imageIds.forEach((id) => {
+      pending.delete(id);
+      exported.add(id);
+    });
+    setState({
+      succeeded: exported.size,
+      failures: state.failures.filter((f) => !imageIds.includes(f.image.id)),
+    });
+  };
+
+  const addToAlbum = async (batch: { image: ImageItem; asset: MediaLibrary.Asset }[]) => {
+    if (batch.length === 0) return;
+    try {
+      let assets = batch.map((entry) => entry.asset);
+      if (!album) {
+        album = await MediaLibrary.getAlbumAsync(albumName);
+      }
+      if (!album) {
+        // 相册不存在时用第一张图片创建
+        album = await MediaLibrary.createAlbumAsync(albumName, assets[0], false);
+        assets = assets.slice(1);
+      }
+      if (assets.length > 0) {
+        await MediaLibrary.addAssetsToAlbumAsync(assets, album, false);
+      }
+      succeed(batch.map((entry) => entry.image.id));
+    } catch (err) {
+      console.error("添加资产到相册失败:", err);
+      batch.forEach((entry) => fail(entry.image, `添加到相册失败: ${describeError(err)}`));
+    }
+  };
+
+  const exportToAlbum = async (queue: ImageItem[]) => {
+    const perm = await MediaLibrary.requestPermissionsAsync();
+    if (!perm.granted) {
+      throw new Error("需要相册访问权限才能保存文件");
+    }
+
+    let batch: { image: ImageItem; asset: MediaLibrary.Asset }[] = [];
+    for (const img of queue) {
+      if (cancelRequested) break;
+      const fileName = fileNames.get(img.id) ?? img.id;
+      setState({ currentFile: fileName });
+      const tempFile = `${FileSystem.cacheDirectory}${fileName}.${getExtension(img.uri)}`;
+      try {
+        await FileSystem.copyAsync({ from: img.uri, to: tempFile });
+        batch.push({ image: img, asset: await MediaLibrary.createAssetAsync(tempFile) });
+      } catch (err) {
+        console.warn(`创建资产失败: ${img.uri}`, err);
+        fail(img, describeError(err));
+      } finally {
+        await FileSystem.deleteAsync(tempFile, { idempotent: true });
+      }
+
+      if (batch.length >= BATCH_SIZE) {
+        await addToAlbum(batch);
+        batch = [];
+      }
+    }
+    await addToAlbum(batch);
+  };
+
+  const exportToZip = async (queue: ImageItem[]) => {
+    await FileSystem.makeDirectoryAsync(stagingDir, { intermediates: true }).catch(() => undefined);
+    for (const img of queue) {
+      if (cancelRequested) break;
+      const file = `${fileNames.get(img.id) ?? img.id}.${getExtension(img.uri)}`;
+      setState({ currentFile: file });
+      try {
+        await FileSystem.copyAsync({ from: img.uri, to: `${stagingDir}${file}` });
+        succeed([img.id]);
+      } catch (err) {
+        console.warn(`复制图片失败: ${img.uri}`, err);
+        fail(img, describeError(err));
+      }
+    }
+    if (cancelRequested || exported.size === 0) return;
+
+    setState({ currentFile: "manifest.json" });
+    const entries = images
+      .filter((img) => exported.has(img.id))
+      .map((img) =>
+        buildManifestEntry(img, `${fileNames.get(img.id)}.${getExtension(img.uri)}`, groups)
+      );
+    setState({ resultUri: await zipWithManifest(stagingDir, entries, archiveName) });
+  };
+
+  const run = async () => {
+    if (state.status === "running") return;
+    cancelRequested = false;
+    setState({ status: "running", error: undefined });
+
+    const queue = images.filter((img) => pending.has(img.id));
+    try {
+      if (mode === "album") {
+        await exportToAlbum(queue);
+      } else {
+        await exportToZip(queue);
+      }
+      setState({ status: cancelRequested ? "cancelled" : "finished", currentFile: undefined });
+    } catch (err) {
+      console.error("导出过程失败:", err);
+      setState({ status: "error", error: describeError(err), currentFile: undefined });
+    }
+  };
+
+  return {
+    mode,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    run,
+    cancel: () => {
+      cancelRequested = true;
+    },
+    retryFailed: async () => {
+      state.failures.forEach((failure) => pending.add(failure.image.id));
+      setState({ failures: [] });
+      await run();
+    },
+    dispose: async () => {
+      cancelRequested = true;
+      await FileSystem.deleteAsync(stagingDir, { idempotent: true });
+    },
+  };
+};
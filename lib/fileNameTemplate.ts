@@ -0,0 +1,128 @@
+import { formatDate, getImageDate } from "@/lib/dates";
+import { sortTagsByGroup } from "@/lib/tags";
+import { fromDateKey, getTimeRange } from "@/lib/timeTags";
+import type { ImageItem, TagGroup } from "@/lib/types";
+
+/**
+ * Export filenames are rendered from a template such as
+ * `{time}_{group:地点}_{tags}_{seq:3}`. Supported variables:
+ *
+ * - `{tags}` / `{tags:-}`: every non-time tag in group order, joined by `_` or the given separator
+ * - `{time}` / `{time:YYYYMMDD}`: the time tag name, or its date in the given pattern
+ * - `{group:名称}`: the tags that belong to the named group
+ * - `{date}` / `{date:YYYY-MM-DD}`: the capture date, `YYYYMMDD` by default
+ * - `{seq}` / `{seq:3}`: the position in the export, optionally zero-padded
+ */
+export const TEMPLATE_VARIABLES = [
+  { token: "{tags}", description: "全部标签" },
+  { token: "{time}", description: "时间标签" },
+  { token: "{time:YYYYMMDD}", description: "时间标签日期" },
+  { token: "{group:分组名}", description: "指定分组的标签" },
+  { token: "{date}", description: "拍摄日期" },
+  { token: "{seq:3}", description: "序号" },
+];
+
+const TOKEN_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+const ILLEGAL_CHARS = /[\\/:*?"<>|\u0000-\u001f]/g;
+const SEPARATORS = "_\\- .";
+const MAX_LENGTH = 100;
+
+interface RenderContext {
+  image: ImageItem;
+  groups: TagGroup[];
+  sequence: number;
+}
+
+const sanitize = (value: string) => value.replace(ILLEGAL_CHARS, "_");
+
+const renderToken = (name: string, arg: string | undefined, context: RenderContext) => {
+  const { image, groups, sequence } = context;
+  switch (name) {
+    case "tags":
+      return sortTagsByGroup(image.tags, groups)
+        .filter((tag) => !tag.isTimeTag)
+        .map((tag) => sanitize(tag.name))
+        .join(arg ?? "_");
+    case "time": {
+      if (!arg) return sanitize(image.tags.find((tag) => tag.isTimeTag)?.name ?? "");
+      const range = getTimeRange(image.tags);
+      if (!range) return "";
+      const start = formatDate(fromDateKey(range.start), arg);
+      const end = formatDate(fromDateKey(range.end), arg);
+      return sanitize(start === end ? start : `${start}-${end}`);
+    }
+    case "group": {
+      const group = groups.find((g) => g.name.trim().toLowerCase() === arg?.trim().toLowerCase());
+      if (!group) return "";
+      return sortTagsByGroup(image.tags, groups)
+        .filter((tag) => tag.groupId === group.id)
+        .map((tag) => sanitize(tag.name))
+        .join("_");
+    }
+    case "date":
+      return sanitize(formatDate(getImageDate(image), arg || "YYYYMMDD"));
+    case "seq": {
+      const width = parseInt(arg ?? "", 10);
+      return String(sequence).padStart(Number.isNaN(width) ? 0 : width, "0");
+    }
+    default:
+      return "";
+  }
+};
+
+/**
+ * Lists problems with a template so the editor can flag them before export.
+ */
+export const getTemplateErrors = (template: string, groups: TagGroup[]) => {
+  const errors: string[] = [];
+  for (const [token, name, arg] of template.matchAll(TOKEN_PATTERN)) {
+    if (!["tags", "time", "group", "date", "seq"].includes(name)) {
+      errors.push(`未知变量 ${token}`);
+    } else if (name === "group") {
+      if (!arg?.trim()) {
+        errors.push(`${token} 需要指定分组名`);
+      } else if (!groups.some((g) => g.name.trim().toLowerCase() === arg.trim().toLowerCase())) {
+        errors.push(`分组「${arg}」不存在`);
+      }
+    }
+  }
+  return errors;
+};
+
+export const renderFileName = (template: string, context: RenderContext) => {
+  const rendered = sanitize(
+    template.replace(TOKEN_PATTERN, (_match, name: string, arg?: string) =>
+      renderToken(name, arg, context)
+    )
+  );
+  // 空变量会留下连续或首尾的分隔符，这里统一清理
+  return rendered
+    .replace(new RegExp(`[${SEPARATORS}]{2,}`, "g"), (run) => run[0])
+    .replace(new RegExp(`^[${SEPARATORS}]+|[${SEPARATORS}]+$`, "g"), "")
+    .slice(0, MAX_LENGTH);
+};
+
+/**
+ * Returns a generator that renders names for one export run, numbering the
+ * images in call order and appending `_N` to avoid duplicates.
+ */
+export const createFileNameGenerator = (template: string, groups: TagGroup[]) => {
+  const usedNames = new Set<string>();
+  let sequence = 0;
+
+  return (image: ImageItem) => {
+    sequence++;
+    const baseFileName =
+      renderFileName(template, { image, groups, sequence }) || `image_${image.id}`;
+    let fileName = baseFileName;
+    let counter = 1;
+
+    while (usedNames.has(fileName)) {
+      fileName = `${baseFileName}_${counter}`;
+      counter++;
+    }
+
+    usedNames.add(fileName);
+    return fileName;
+  };
+};
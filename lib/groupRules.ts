@@ -0,0 +1,55 @@
+import type { Tag, TagGroup, TagGroupRules } from "@/lib/types";
+
+export const DEFAULT_GROUP_RULES: TagGroupRules = { singleSelect: false, required: false };
+
+export const getGroupRules = (group: TagGroup) => group.rules ?? DEFAULT_GROUP_RULES;
+
+// 单选分组最多只能有一个标签
+export const getMaxCount = (rules: TagGroupRules) => (rules.singleSelect ? 1 : rules.maxCount);
+
+export const describeGroupRules = (rules: TagGroupRules) => {
+  const parts: string[] = [];
+  if (rules.singleSelect) parts.push("单选");
+  if (rules.required) parts.push("必填");
+  if (!rules.singleSelect && rules.minCount) parts.push(`至少 ${rules.minCount} 个`);
+  if (!rules.singleSelect && rules.maxCount) parts.push(`最多 ${rules.maxCount} 个`);
+  return parts.join(" · ");
+};
+
+export interface RuleViolation {
+  groupId: string;
+  // 缺少标签（必填、最少数量）还是标签过多（单选、最多数量）
+  kind: "missing" | "tooMany";
+  message: string;
+}
+
+/**
+ * Checks a photo's tags against every group's rules. A group the photo has no
+ * tags from only counts as a violation when it is required; `minCount` applies
+ * once at least one tag from the group is present.
+ */
+export const getRuleViolations = (tags: Tag[], groups: TagGroup[]): RuleViolation[] =>
+  groups.flatMap((group): RuleViolation[] => {
+    const rules = getGroupRules(group);
+    const count = tags.filter((tag) => !tag.isTimeTag && tag.groupId === group.id).length;
+    const maxCount = getMaxCount(rules);
+    const minCount = rules.singleSelect ? 1 : Math.max(1, rules.minCount ?? 1);
+
+    if (count === 0) {
+      return rules.required
+        ? [{ groupId: group.id, kind: "missing", message: `「${group.name}」为必填分组` }]
+        : [];
+    }
+    if (count < minCount) {
+      const message = `「${group.name}」至少需要 ${minCount} 个标签`;
+      return [{ groupId: group.id, kind: "missing", message }];
+    }
+    if (maxCount && count > maxCount) {
+      const message = `「${group.name}」最多只能选择 ${maxCount} 个标签`;
+      return [{ groupId: group.id, kind: "tooMany", message }];
+    }
+    return [];
+  });
+
+export const setGroupRules = (groups: TagGroup[], groupId: string, rules: TagGroupRules) =>
+  groups.map((group) => (group.id === groupId ? { ...group, rules } : group));
@@ -0,0 +1,94 @@
+import Toast from "react-native-toast-message";
+
+/**
+ * A reversible change. `redo` re-applies the change after an `undo`; both
+ * work on the stores directly so they stay valid after the screen that made
+ * the change has closed.
+ */
+export interface Operation {
+  description: string;
+  undo: () => Promise<unknown>;
+  redo: () => Promise<unknown>;
+}
+
+// 提示只针对最近一次操作，更早的操作可通过首页的撤销按钮逐条撤销
+const MAX_HISTORY = 20;
+const undoStack: Operation[] = [];
+const redoStack: Operation[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/** The operation the next `undo` reverts, if any. */
+export const getUndoable = (): Operation | undefined => undoStack[undoStack.length - 1];
+
+export const subscribeHistory = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const showUndoToast = (operation: Operation) => {
+  Toast.show({
+    type: "success",
+    text1: "已删除 · 撤销",
+    text2: operation.description,
+    onPress: () => {
+      Toast.hide();
+      undo();
+    },
+  });
+};
+
+const showRedoToast = (operation: Operation) => {
+  Toast.show({
+    type: "info",
+    text1: "已撤销 · 重做",
+    text2: operation.description,
+    onPress: () => {
+      Toast.hide();
+      redo();
+    },
+  });
+};
+
+/**
+ * Adds a change that has already been applied to the operation log and
+ * offers to undo it. Recording a new change clears the redo history.
+ */
+export const recordOperation = (operation: Operation) => {
+  undoStack.push(operation);
+  if (undoStack.length > MAX_HISTORY) undoStack.shift();
+  redoStack.length = 0;
+  notify();
+  showUndoToast(operation);
+};
+
+export const undo = async () => {
+  const operation = undoStack.pop();
+  if (!operation) return;
+  notify();
+  try {
+    await operation.undo();
+    redoStack.push(operation);
+    showRedoToast(operation);
+  } catch (error) {
+    console.error("撤销失败:", error);
+    Toast.show({ type: "error", text1: "错误", text2: "撤销失败" });
+  }
+};
+
+export const redo = async () => {
+  const operation = redoStack.pop();
+  if (!operation) return;
+  try {
+    await operation.redo();
+    undoStack.push(operation);
+    notify();
+    showUndoToast(operation);
+  } catch (error) {
+    console.error("重做失败:", error);
+    Toast.show({ type: "error", text1: "错误", text2: "重做失败" });
+  }
+};
@@ -0,0 +1,69 @@
+import { parseDateKey } from "@/lib/dates";
+import { getTimeRange } from "@/lib/timeTags";
+import type { ImageFilter, ImageItem } from "@/lib/types";
+
+export const EMPTY_FILTER: ImageFilter = {
+  mode: "and",
+  includeTagIds: [],
+  excludeTagIds: [],
+  untaggedOnly: false,
+  missingGroupIds: [],
+  timeFrom: "",
+  timeTo: "",
+};
+
+// 时间范围的一端，留空或无法识别的日期不限制
+export const parseTimeBound = (text: string) => (text.trim() ? parseDateKey(text) : null);
+
+export const isFilterActive = (filter: ImageFilter) =>
+  filter.includeTagIds.length > 0 ||
+  filter.excludeTagIds.length > 0 ||
+  filter.untaggedOnly ||
+  filter.missingGroupIds.length > 0 ||
+  !!parseTimeBound(filter.timeFrom) ||
+  !!parseTimeBound(filter.timeTo);
+
+// 日期键按前缀比较，"2024-06" 包含 6 月的所有日期；时间段与筛选范围有重叠即算匹配
+const overlapsRange = (
+  range: { start: string; end: string },
+  from: string | null,
+  to: string | null
+) =>
+  (!from || range.end >= from.slice(0, range.end.length)) &&
+  (!to || range.start <= to || range.start.startsWith(to));
+
+export const matchesFilter = (image: ImageItem, filter: ImageFilter) => {
+  const tagIds = new Set(image.tags.map((tag) => tag.id));
+  const contentTags = image.tags.filter((tag) => !tag.isTimeTag);
+
+  if (filter.untaggedOnly && contentTags.length > 0) return false;
+
+  if (filter.includeTagIds.length > 0) {
+    const matched =
+      filter.mode === "and"
+        ? filter.includeTagIds.every((id) => tagIds.has(id))
+        : filter.includeTagIds.some((id) => tagIds.has(id));
+    if (!matched) return false;
+  }
+
+  if (filter.excludeTagIds.some((id) => tagIds.has(id))) return false;
+
+  if (
+    filter.missingGroupIds.length > 0 &&
+    !filter.missingGroupIds.some((groupId) => !contentTags.some((tag) => tag.groupId === groupId))
+  ) {
+    return false;
+  }
+
+  const from = parseTimeBound(filter.timeFrom);
+  const to = parseTimeBound(filter.timeTo);
+  if (from || to) {
+    const range = getTimeRange(image.tags);
+    if (!range || !overlapsRange(range, from, to)) return false;
+  }
+
+  return true;
+};
+
+export const applyImageFilter = (images: ImageItem[], filter: ImageFilter) =>
+  isFilterActive(filter) ? images.filter((image) => matchesFilter(image, filter)) : images;
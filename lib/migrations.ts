@@ -0,0 +1,181 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  STORAGE_KEYS,
+  getImageEntries,
+  isRecord,
+  readRawImages,
+  removeStaleImageKeys,
+} from "@/lib/storage";
+import { parseTimeText } from "@/lib/timeTags";
+
+const SCHEMA_VERSION_KEY = "schemaVersion";
+const MIGRATION_BACKUP_KEY = "migrationBackup";
+
+/**
+ * The raw persisted payloads. Migrations operate on untyped JSON because the
+ * whole point is that older records do not match the current models yet.
+ */
+export interface PersistedData {
+  images: unknown;
+  tagGroups: unknown;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: PersistedData) => PersistedData;
+}
+
+export interface MigrationBackup extends PersistedData {
+  fromVersion: number;
+  createdAt: number;
+}
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// 按版本号递增排列，每个迁移只负责从上一个版本升级到自身版本
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "补全标签的 groupId 与 isTimeTag 字段",
+    migrate: ({ images, tagGroups }) => {
+      const groupIdByTagId = new Map<string, string>();
+      const groups = asArray(tagGroups).map((group) => {
+        if (!isRecord(group) || typeof group.id !== "string") return group;
+        const groupId = group.id;
+        return {
+          ...group,
+          tags: asArray(group.tags).map((tag) => {
+            if (!isRecord(tag) || typeof tag.id !== "string") return tag;
+            groupIdByTagId.set(tag.id, groupId);
+            return { ...tag, groupId };
+          }),
+        };
+      });
+
+      const upgradedImages = asArray(images).map((image) => {
+        if (!isRecord(image)) return image;
+        return {
+          ...image,
+          tags: asArray(image.tags).map((tag) => {
+            if (!isRecord(tag) || typeof tag.id !== "string") return tag;
+            // 旧版时间标签只能通过 id 前缀识别
+            if (tag.id.startsWith("time-")) {
+              const { groupId: _groupId, ...rest } = tag;
+              return { ...rest, isTimeTag: true };
+            }
+            const groupId = groupIdByTagId.get(tag.id) ?? tag.groupId;
+            return typeof groupId === "string" ? { ...tag, groupId } : tag;
+          }),
+        };
+      });
+
+      return { images: upgradedImages, tagGroups: groups };
+    },
+  },
+  {
+    version: 2,
+    description: "为时间标签补充结构化日期",
+    migrate: ({ images, tagGroups }) => ({
+      tagGroups,
+      images: asArray(images).map((image) => {
+        if (!isRecord(image)) return image;
+        return {
+          ...image,
+          tags: asArray(image.tags).map((tag) => {
+            if (!isRecord(tag) || tag.isTimeTag !== true || typeof tag.name !== "string") {
+              return tag;
+            }
+            // 无法识别日期的自由文本保持原样
+            const time = parseTimeText(tag.name);
+            return time ? { ...tag, time } : tag;
+          }),
+        };
+      }),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Applies every migration newer than `fromVersion` to raw payloads. Also used
+ * for data that comes from outside the app's own storage, such as backups.
+ */
+export const migrateData = (data: PersistedData, fromVersion: number) =>
+  migrations
+    .filter((migration) => migration.version > fromVersion)
+    .reduce((current, migration) => migration.migrate(current), data);
+
+const readJson = (raw: string | null): unknown => (raw ? JSON.parse(raw) : null);
+
+const readSchemaVersion = async () => {
+  const raw = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+  const version = raw ? Number(raw) : 0;
+  return Number.isInteger(version) ? version : 0;
+};
+
+// 所有键在一次 multiSet 中写入，之后再清理不再使用的图片键
+const writePayloads = async ({ images, tagGroups }: PersistedData, version: number) => {
+  const entries: [string, string][] = [[SCHEMA_VERSION_KEY, String(version)]];
+  if (Array.isArray(images)) {
+    entries.push(...getImageEntries(images));
+  }
+  if (tagGroups !== null) {
+    entries.push([STORAGE_KEYS.tagGroups, JSON.stringify(tagGroups)]);
+  }
+  await AsyncStorage.multiSet(entries);
+  if (Array.isArray(images)) {
+    await removeStaleImageKeys(images);
+  }
+};
+
+/**
+ * Upgrades the persisted payloads to `CURRENT_SCHEMA_VERSION`.
+ *
+ * The untouched payloads are copied to a backup key before anything is
+ * written, and all keys are written in a single `multiSet`, so a migration
+ * that throws leaves the stored library exactly as it was.
+ */
+export const runMigrations = async () => {
+  const fromVersion = await readSchemaVersion();
+  if (fromVersion >= CURRENT_SCHEMA_VERSION) return;
+
+  const images = await readRawImages();
+  const rawTagGroups = await AsyncStorage.getItem(STORAGE_KEYS.tagGroups);
+
+  // 全新安装没有需要升级的数据
+  if (images === null && rawTagGroups === null) {
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+    return;
+  }
+
+  const original: PersistedData = { images, tagGroups: readJson(rawTagGroups) };
+  // 上次迁移失败后应用可能已写入过数据，重试时保留第一次保存的备份
+  const existing = await getMigrationBackup();
+  if (existing?.fromVersion !== fromVersion) {
+    const backup: MigrationBackup = { ...original, fromVersion, createdAt: Date.now() };
+    await AsyncStorage.setItem(MIGRATION_BACKUP_KEY, JSON.stringify(backup));
+  }
+
+  const upgraded = migrateData(original, fromVersion);
+
+  await writePayloads(upgraded, CURRENT_SCHEMA_VERSION);
+};
+
+export const getMigrationBackup = async (): Promise<MigrationBackup | null> => {
+  const raw = await AsyncStorage.getItem(MIGRATION_BACKUP_KEY);
+  return raw ? JSON.parse(raw) : null;
+};
+
+/**
+ * Puts the pre-migration payloads back and rewinds the schema version, so
+ * that the next `runMigrations` upgrades them again.
+ */
+export const restoreMigrationBackup = async () => {
+  const backup = await getMigrationBackup();
+  if (!backup) return false;
+
+  await writePayloads(backup, backup.fromVersion);
+  return true;
+};
@@ -0,0 +1,198 @@
+import * as FileSystem from "expo-file-system";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import * as MediaLibrary from "expo-media-library";
+import type { ImagePickerAsset } from "expo-image-picker";
+import type { ImageItem } from "@/lib/types";
+
+const PHOTO_DIR_NAME = "photos";
+export const PHOTO_DIR = `${FileSystem.documentDirectory}${PHOTO_DIR_NAME}/`;
+
+// 缩略图放在图片目录内，随图片一起按托管文件处理
+const THUMBNAIL_DIR = `${PHOTO_DIR}thumbnails/`;
+// 照片墙两列布局下足够清晰
+const THUMBNAIL_WIDTH = 400;
+
+const ensureDir = async (dir: string) => {
+  const info = await FileSystem.getInfoAsync(dir);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  }
+};
+
+export const getExtension = (uri: string) => {
+  const match = /\.(\w+)(?:\?.*)?$/.exec(uri);
+  return match ? match[1].toLowerCase() : "jpg";
+};
+
+const getFileName = (uri: string) => uri.substring(uri.lastIndexOf("/") + 1);
+
+export const isManagedPhoto = (uri: string) => uri.includes(`/${PHOTO_DIR_NAME}/`);
+
+const fileExists = async (uri: string) => {
+  try {
+    return (await FileSystem.getInfoAsync(uri)).exists;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Copies a picker/camera result into the app's document directory. Picker
+ * URIs point into a cache the OS is free to purge at any time.
+ */
+export const persistPhoto = async (sourceUri: string, id: string) => {
+  await ensureDir(PHOTO_DIR);
+  const target = `${PHOTO_DIR}${id}.${getExtension(sourceUri)}`;
+  await FileSystem.copyAsync({ from: sourceUri, to: target });
+  return target;
+};
+
+/**
+ * Writes a small JPEG copy of a photo for the wall. Thumbnails are optional:
+ * on failure this returns undefined and the wall shows the full image.
+ */
+export const createThumbnail = async (sourceUri: string, id: string) => {
+  try {
+    await ensureDir(THUMBNAIL_DIR);
+    const rendered = await ImageManipulator.manipulate(sourceUri)
+      .resize({ width: THUMBNAIL_WIDTH })
+      .renderAsync();
+    const result = await rendered.saveAsync({ compress: 0.7, format: SaveFormat.JPEG });
+    const target = `${THUMBNAIL_DIR}${id}.jpg`;
+    await FileSystem.moveAsync({ from: result.uri, to: target });
+    return target;
+  } catch (error) {
+    console.warn(`生成缩略图失败: ${sourceUri}`, error);
+    return undefined;
+  }
+};
+
+// EXIF 日期形如 "2024:06:01 12:30:00"，没有时区，按本地时间解析
+const parseExifDate = (value: unknown) => {
+  if (typeof value !== "string") return null;
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  const time = new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Works out when a picked photo was taken: EXIF `DateTimeOriginal` when the
+ * picker returned it (iOS nests it under `{Exif}`), otherwise the file's
+ * modification time. Falls back to now if neither is available.
+ */
+export const readCaptureTime = async (asset: ImagePickerAsset) => {
+  const exif = asset.exif ?? {};
+  const exifTime =
+    parseExifDate(exif.DateTimeOriginal) ?? parseExifDate(exif["{Exif}"]?.DateTimeOriginal);
+  if (exifTime !== null) return exifTime;
+
+  try {
+    const info = await FileSystem.getInfoAsync(asset.uri);
+    if (info.exists && info.modificationTime) {
+      return info.modificationTime * 1000;
+    }
+  } catch (error) {
+    console.warn(`读取文件时间失败: ${asset.uri}`, error);
+  }
+  return Date.now();
+};
+
+export const deletePhotoFile = async (uri: string) => {
+  if (!isManagedPhoto(uri)) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.warn(`删除图片文件失败: ${uri}`, error);
+  }
+};
+
+// `inUse` 中的文件仍被其他图片引用，不能删除
+export const deleteImageFiles = (image: ImageItem, inUse = new Set<string>()) =>
+  Promise.all(
+    [image.uri, image.thumbnailUri]
+      .filter((uri): uri is string => !!uri && !inUse.has(uri))
+      .map(deletePhotoFile)
+  );
+
+// 尝试从系统相册中找回原图
+const recoverFromLibrary = async (sourceId: string, id: string) => {
+  try {
+    const info = await MediaLibrary.getAssetInfoAsync(sourceId);
+    return info.localUri ? await persistPhoto(info.localUri, id) : null;
+  } catch {
+    return null;
+  }
+};
+
+// 目录不存在时视为空目录
+const listFiles = async (dir: string) => {
+  try {
+    return new Set((await FileSystem.readDirectoryAsync(dir)).map((name) => `${dir}${name}`));
+  } catch {
+    return new Set<string>();
+  }
+};
+
+// `files` 为图片目录与缩略图目录中现有的文件
+const checkPhotoSource = async (
+  image: ImageItem,
+  files: Set<string>
+): Promise<Partial<ImageItem> | null> => {
+  if (isManagedPhoto(image.uri)) {
+    if (files.has(image.uri)) {
+      return image.missing ? { missing: false } : null;
+    }
+    // iOS 升级应用后文档目录路径会变化，但文件仍在新的目录中
+    const relocated = `${PHOTO_DIR}${getFileName(image.uri)}`;
+    if (relocated !== image.uri && files.has(relocated)) {
+      return { uri: relocated, missing: false };
+    }
+  } else if (await fileExists(image.uri)) {
+    // 旧版本直接保存了缓存路径，趁文件还在时迁移到应用目录
+    try {
+      return { uri: await persistPhoto(image.uri, image.id), missing: false };
+    } catch (error) {
+      console.warn(`迁移图片文件失败: ${image.uri}`, error);
+      return null;
+    }
+  }
+
+  const recovered = image.sourceId ? await recoverFromLibrary(image.sourceId, image.id) : null;
+  if (recovered) {
+    return { uri: recovered, missing: false };
+  }
+  return image.missing ? null : { missing: true };
+};
+
+// 旧版本添加的图片没有缩略图，缩略图丢失时也重新生成
+const checkPhotoFile = async (
+  image: ImageItem,
+  files: Set<string>
+): Promise<Partial<ImageItem> | null> => {
+  const change = await checkPhotoSource(image, files);
+  if (change?.missing ?? image.missing) return change;
+  if (image.thumbnailUri && files.has(image.thumbnailUri)) return change;
+  const thumbnailUri = await createThumbnail(change?.uri ?? image.uri, image.id);
+  return thumbnailUri ? { ...change, thumbnailUri } : change;
+};
+
+/**
+ * Verifies every image file on launch. Returns the changes to apply per image
+ * id: relocated or recovered paths, regenerated thumbnails, or a `missing`
+ * flag for lost files. The photo directories are listed once up front, so
+ * only photos that need repair touch the file system individually.
+ */
+export const checkPhotoFiles = async (images: ImageItem[]) => {
+  const [photos, thumbnails] = await Promise.all([listFiles(PHOTO_DIR), listFiles(THUMBNAIL_DIR)]);
+  const files = new Set([...photos, ...thumbnails]);
+  const changes = new Map<string, Partial<ImageItem>>();
+  for (const image of images) {
+    const change = await checkPhotoFile(image, files);
+    if (change) {
+      changes.set(image.id, change);
+    }
+  }
+  return changes;
+};
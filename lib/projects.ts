@@ -0,0 +1,38 @@
+import type { ImageItem, Project, TagGroup } from "@/lib/types";
+
+export const DEFAULT_PROJECT_ID = "default";
+
+// 旧版本的照片都归入默认项目，并沿用原来的导出相册
+export const DEFAULT_PROJECT: Project = {
+  id: DEFAULT_PROJECT_ID,
+  name: "默认项目",
+  albumName: "picTaging",
+};
+
+const ILLEGAL_ALBUM_CHARS = /[\\/:*?"<>|]/;
+
+/**
+ * The project an image is shown in. Images without a project, or whose
+ * project has been deleted, belong to the default project.
+ */
+export const getImageProjectId = (image: ImageItem, projectIds: Set<string>) =>
+  image.projectId && projectIds.has(image.projectId) ? image.projectId : DEFAULT_PROJECT_ID;
+
+export const getProjectImages = (images: ImageItem[], projects: Project[], projectId: string) => {
+  const projectIds = new Set(projects.map((project) => project.id));
+  return images.filter((image) => getImageProjectId(image, projectIds) === projectId);
+};
+
+// 共享分组加上该项目专属的分组
+export const getProjectGroups = (groups: TagGroup[], projectId: string) =>
+  groups.filter((group) => !group.projectId || group.projectId === projectId);
+
+export const getCurrentProject = (projects: Project[], projectId: string) =>
+  projects.find((project) => project.id === projectId) ?? DEFAULT_PROJECT;
+
+// 相册名称同时用作压缩包文件名，不能包含文件名中的非法字符
+export const getAlbumNameError = (albumName: string) => {
+  if (!albumName.trim()) return "导出相册名称不能为空";
+  if (ILLEGAL_ALBUM_CHARS.test(albumName)) return '导出相册名称不能包含 \\ / : * ? " < > |';
+  return null;
+};
@@ -0,0 +1,435 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { EMPTY_FILTER } from "@/lib/imageFilter";
+import { DEFAULT_PROJECT, DEFAULT_PROJECT_ID } from "@/lib/projects";
+import { DEFAULT_TIME_TAG_FORMAT } from "@/lib/timeTags";
+import type {
+  ImageFilter,
+  ImageItem,
+  Project,
+  Settings,
+  Tag,
+  TagGroup,
+  TagGroupRules,
+  TagPreset,
+  TimeTagFormat,
+  TimeValue,
+  TrashItem,
+} from "@/lib/types";
+
+export const STORAGE_KEYS = {
+  images: "images",
+  tagGroups: "tagGroups",
+  settings: "settings",
+  trash: "trash",
+  projects: "projects",
+  tagPresets: "tagPresets",
+} as const;
+
+export const DEFAULT_SETTINGS: Settings = {
+  fileNameTemplate: "{time}_{tags}",
+  wallFilter: EMPTY_FILTER,
+  timeTagFormat: DEFAULT_TIME_TAG_FORMAT,
+  currentProjectId: DEFAULT_PROJECT_ID,
+};
+
+type Listener<T> = (value: T) => void;
+
+/**
+ * A single persisted value, kept in AsyncStorage by a `Persistence`.
+ *
+ * All writes go through `update`, which is queued so that concurrent screens
+ * always build on the latest persisted value instead of a stale render copy.
+ */
+export interface Store<T> {
+  get: () => T;
+  load: () => Promise<T>;
+  // Resolves to the current value, reading it first only if it was never loaded
+  ready: () => Promise<T>;
+  update: (updater: (current: T) => T) => Promise<T>;
+  set: (value: T) => Promise<T>;
+  subscribe: (listener: Listener<T>) => () => void;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}(-\d{2})?$/;
+
+const parseTimeValue = (raw: unknown): TimeValue | null => {
+  if (!isRecord(raw) || typeof raw.start !== "string" || !DATE_KEY_PATTERN.test(raw.start)) {
+    return null;
+  }
+  if (raw.granularity === "range") {
+    return typeof raw.end === "string" && DATE_KEY_PATTERN.test(raw.end)
+      ? { granularity: "range", start: raw.start, end: raw.end }
+      : null;
+  }
+  return { granularity: raw.granularity === "month" ? "month" : "day", start: raw.start };
+};
+
+export const parseTag = (raw: unknown): Tag | null => {
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.name !== "string") {
+    return null;
+  }
+  const tag: Tag = { id: raw.id, name: raw.name };
+  if (typeof raw.groupId === "string") tag.groupId = raw.groupId;
+  if (raw.isTimeTag === true) tag.isTimeTag = true;
+  const time = parseTimeValue(raw.time);
+  if (time) tag.time = time;
+  return tag;
+};
+
+const parseTags = (raw: unknown): Tag[] =>
+  Array.isArray(raw) ? raw.map(parseTag).filter((tag): tag is Tag => tag !== null) : [];
+
+const parseCount = (raw: unknown) =>
+  typeof raw === "number" && Number.isInteger(raw) && raw > 0 ? raw : undefined;
+
+export const parseGroupRules = (raw: unknown): TagGroupRules | null => {
+  if (!isRecord(raw)) return null;
+  const rules: TagGroupRules = {
+    singleSelect: raw.singleSelect === true,
+    required: raw.required === true,
+  };
+  const minCount = parseCount(raw.minCount);
+  const maxCount = parseCount(raw.maxCount);
+  if (minCount) rules.minCount = minCount;
+  if (maxCount) rules.maxCount = maxCount;
+  return rules;
+};
+
+export const parseTagGroup = (raw: unknown): TagGroup | null => {
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.name !== "string") {
+    return null;
+  }
+  const group: TagGroup = { id: raw.id, name: raw.name, tags: parseTags(raw.tags) };
+  const rules = parseGroupRules(raw.rules);
+  if (rules) group.rules = rules;
+  if (typeof raw.projectId === "string") group.projectId = raw.projectId;
+  return group;
+};
+
+export const parseImageItem = (raw: unknown): ImageItem | null => {
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.uri !== "string") {
+    return null;
+  }
+  const image: ImageItem = { id: raw.id, uri: raw.uri, tags: parseTags(raw.tags) };
+  if (typeof raw.thumbnailUri === "string") image.thumbnailUri = raw.thumbnailUri;
+  if (typeof raw.createdAt === "number") image.createdAt = raw.createdAt;
+  if (typeof raw.capturedAt === "number") image.capturedAt = raw.capturedAt;
+  if (typeof raw.sourceId === "string") image.sourceId = raw.sourceId;
+  if (raw.missing === true) image.missing = true;
+  if (typeof raw.projectId === "string") image.projectId = raw.projectId;
+  return image;
+};
+
+const parseTrashItem = (raw: unknown): TrashItem | null => {
+  if (!isRecord(raw) || typeof raw.deletedAt !== "number") return null;
+  const image = parseImageItem(raw.image);
+  if (!image) return null;
+  return { image, deletedAt: raw.deletedAt, index: typeof raw.index === "number" ? raw.index : 0 };
+};
+
+export const parseProject = (raw: unknown): Project | null => {
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.name !== "string") {
+    return null;
+  }
+  const albumName =
+    typeof raw.albumName === "string" && raw.albumName.trim() ? raw.albumName : raw.name;
+  return { id: raw.id, name: raw.name, albumName };
+};
+
+const parseStrings = (raw: unknown): string[] =>
+  Array.isArray(raw) ? raw.filter((item): item is string => typeof item === "string") : [];
+
+export const parseTagPreset = (raw: unknown): TagPreset | null => {
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.name !== "string") {
+    return null;
+  }
+  const preset: TagPreset = { id: raw.id, name: raw.name, tagIds: parseStrings(raw.tagIds) };
+  if (raw.timeGranularity === "day" || raw.timeGranularity === "month") {
+    preset.timeGranularity = raw.timeGranularity;
+  }
+  return preset;
+};
+
+const parseImageFilter = (raw: unknown): ImageFilter => {
+  if (!isRecord(raw)) return EMPTY_FILTER;
+  return {
+    mode: raw.mode === "or" ? "or" : "and",
+    includeTagIds: parseStrings(raw.includeTagIds),
+    excludeTagIds: parseStrings(raw.excludeTagIds),
+    untaggedOnly: raw.untaggedOnly === true,
+    missingGroupIds: parseStrings(raw.missingGroupIds),
+    timeFrom: typeof raw.timeFrom === "string" ? raw.timeFrom : "",
+    timeTo: typeof raw.timeTo === "string" ? raw.timeTo : "",
+  };
+};
+
+const parseTimeTagFormat = (raw: unknown): TimeTagFormat => {
+  if (!isRecord(raw)) return DEFAULT_TIME_TAG_FORMAT;
+  return {
+    day: typeof raw.day === "string" && raw.day.trim() ? raw.day : DEFAULT_TIME_TAG_FORMAT.day,
+    month:
+      typeof raw.month === "string" && raw.month.trim() ? raw.month : DEFAULT_TIME_TAG_FORMAT.month,
+  };
+};
+
+// 缺失或类型不对的设置项使用默认值
+const parseSettings = (raw: unknown): Settings => {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (!isRecord(raw)) return settings;
+  if (typeof raw.fileNameTemplate === "string") settings.fileNameTemplate = raw.fileNameTemplate;
+  settings.wallFilter = parseImageFilter(raw.wallFilter);
+  settings.timeTagFormat = parseTimeTagFormat(raw.timeTagFormat);
+  if (typeof raw.currentProjectId === "string") settings.currentProjectId = raw.currentProjectId;
+  return settings;
+};
+
+// 丢弃无法识别的条目，但整体结构错误时直接抛出，避免用空数据覆盖已保存的内容
+const parseList =
+  <T>(key: string, parseItem: (raw: unknown) => T | null) =>
+  (raw: unknown): T[] => {
+    if (!Array.isArray(raw)) {
+      throw new Error(`"${key}" 数据格式无效`);
+    }
+    const items = raw.map(parseItem).filter((item): item is T => item !== null);
+    if (items.length !== raw.length) {
+      console.warn(`"${key}" 中有 ${raw.length - items.length} 条无效数据已被忽略`);
+    }
+    return items;
+  };
+
+/**
+ * How a store's value is kept in AsyncStorage. `write` receives the previous
+ * value so that layouts spread over several keys can write only what changed.
+ */
+interface Persistence<T> {
+  // Resolves to null when nothing has been saved yet
+  read: () => Promise<unknown>;
+  write: (next: T, previous: T) => Promise<void>;
+}
+
+const singleKey = <T>(key: string): Persistence<T> => ({
+  read: async () => {
+    const saved = await AsyncStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  },
+  write: (next) => AsyncStorage.setItem(key, JSON.stringify(next)),
+});
+
+/**
+ * Layout for lists kept as one key per item plus an index key that holds the
+ * order, so an update writes only the items that changed and no single row
+ * outgrows AsyncStorage's ~2 MB read limit on Android. Lists saved by older
+ * versions as one array under `key` are moved to this layout on first read.
+ */
+interface RecordLayout {
+  key: string;
+  // Reads the id of a raw record, which may not be parsed yet
+  idOf: (raw: unknown) => string | null;
+}
+
+const indexKey = (layout: RecordLayout) => `${layout.key}:index`;
+const recordKey = (layout: RecordLayout, id: string) => `${layout.key}:${id}`;
+
+const hasId = (value: unknown): value is Record<string, unknown> & { id: string } =>
+  isRecord(value) && typeof value.id === "string";
+
+const IMAGE_LAYOUT: RecordLayout = {
+  key: STORAGE_KEYS.images,
+  idOf: (raw) => (hasId(raw) ? raw.id : null),
+};
+
+// 最近删除的条目以图片 id 为键
+const TRASH_LAYOUT: RecordLayout = {
+  key: STORAGE_KEYS.trash,
+  idOf: (raw) => (isRecord(raw) && hasId(raw.image) ? raw.image.id : null),
+};
+
+const getRecordEntries = (layout: RecordLayout, records: unknown[]): [string, string][] => {
+  const withIds = records.flatMap((record) => {
+    const id = layout.idOf(record);
+    return id === null ? [] : [{ id, record }];
+  });
+  return [
+    [indexKey(layout), JSON.stringify(withIds.map(({ id }) => id))],
+    ...withIds.map(({ id, record }): [string, string] => [
+      recordKey(layout, id),
+      JSON.stringify(record),
+    ]),
+  ];
+};
+
+// 整体写入后清理不在索引中的条目键以及旧版的单键数据
+const removeStaleRecordKeys = async (layout: RecordLayout, records: unknown[]) => {
+  const keep = new Set(
+    records.flatMap((record) => {
+      const id = layout.idOf(record);
+      return id === null ? [] : [recordKey(layout, id)];
+    })
+  );
+  const stale = (await AsyncStorage.getAllKeys()).filter(
+    (key) =>
+      key === layout.key ||
+      (key.startsWith(`${layout.key}:`) && key !== indexKey(layout) && !keep.has(key))
+  );
+  if (stale.length > 0) await AsyncStorage.multiRemove(stale);
+};
+
+// 按索引顺序读取原始条目，没有保存过时返回 null
+const readRecords = async (layout: RecordLayout): Promise<unknown> => {
+  const index = await AsyncStorage.getItem(indexKey(layout));
+  if (index === null) {
+    const legacy = await AsyncStorage.getItem(layout.key);
+    if (!legacy) return null;
+    const records: unknown = JSON.parse(legacy);
+    if (Array.isArray(records)) {
+      await AsyncStorage.multiSet(getRecordEntries(layout, records));
+      await AsyncStorage.removeItem(layout.key);
+    }
+    return records;
+  }
+  const ids: unknown = JSON.parse(index);
+  if (!Array.isArray(ids)) return ids;
+  const records = await AsyncStorage.multiGet(
+    ids.filter((id): id is string => typeof id === "string").map((id) => recordKey(layout, id))
+  );
+  return records.map(([, raw]) => (raw ? JSON.parse(raw) : null));
+};
+
+const recordList = <T>(layout: RecordLayout, getId: (item: T) => string): Persistence<T[]> => ({
+  read: () => readRecords(layout),
+  write: async (next, previous) => {
+    // 更新函数会保留未修改条目的引用，据此只写入变化的条目
+    const previousById = new Map(previous.map((item) => [getId(item), item]));
+    const entries = next
+      .filter((item) => previousById.get(getId(item)) !== item)
+      .map((item): [string, string] => [recordKey(layout, getId(item)), JSON.stringify(item)]);
+    const sameOrder =
+      next.length === previous.length &&
+      next.every((item, i) => getId(item) === getId(previous[i]));
+    if (!sameOrder) {
+      entries.push([indexKey(layout), JSON.stringify(next.map(getId))]);
+    }
+    if (entries.length > 0) await AsyncStorage.multiSet(entries);
+
+    const nextIds = new Set(next.map(getId));
+    const removed = previous.filter((item) => !nextIds.has(getId(item)));
+    if (removed.length > 0) {
+      await AsyncStorage.multiRemove(removed.map((item) => recordKey(layout, getId(item))));
+    }
+  },
+});
+
+/**
+ * Key/value pairs that store a complete image list in the per-image layout.
+ * Takes raw records so migrations can write payloads that are not parsed yet.
+ */
+export const getImageEntries = (images: unknown[]) => getRecordEntries(IMAGE_LAYOUT, images);
+
+export const removeStaleImageKeys = (images: unknown[]) =>
+  removeStaleRecordKeys(IMAGE_LAYOUT, images);
+
+/**
+ * Reads the raw image records in wall order, or null when there are none.
+ */
+export const readRawImages = () => readRecords(IMAGE_LAYOUT);
+
+const createStore = <T>(
+  persistence: Persistence<T>,
+  parse: (raw: unknown) => T,
+  initial: T
+): Store<T> => {
+  let value = initial;
+  let loaded = false;
+  let queue: Promise<unknown> = Promise.resolve();
+  const listeners = new Set<Listener<T>>();
+
+  const emit = () => listeners.forEach((listener) => listener(value));
+
+  const enqueue = <R>(task: () => Promise<R>): Promise<R> => {
+    const run = queue.then(task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const read = async () => {
+    const saved = await persistence.read();
+    value = saved === null ? initial : parse(saved);
+    loaded = true;
+    emit();
+    return value;
+  };
+
+  const update = (updater: (current: T) => T) =>
+    enqueue(async () => {
+      // 未加载前写入会覆盖已保存的数据，因此先读取一次
+      if (!loaded) await read();
+      const next = updater(value);
+      await persistence.write(next, value);
+      value = next;
+      emit();
+      return next;
+    });
+
+  return {
+    get: () => value,
+    load: () => enqueue(read),
+    ready: () => enqueue(async () => (loaded ? value : read())),
+    update,
+    set: (next) => update(() => next),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+export const imageStore = createStore<ImageItem[]>(
+  recordList(IMAGE_LAYOUT, (image) => image.id),
+  parseList(STORAGE_KEYS.images, parseImageItem),
+  []
+);
+
+export const tagGroupStore = createStore<TagGroup[]>(
+  singleKey(STORAGE_KEYS.tagGroups),
+  parseList(STORAGE_KEYS.tagGroups, parseTagGroup),
+  []
+);
+
+// 最近删除的图片，文件保留到过期清理时才删除
+export const trashStore = createStore<TrashItem[]>(
+  recordList(TRASH_LAYOUT, (item) => item.image.id),
+  parseList(STORAGE_KEYS.trash, parseTrashItem),
+  []
+);
+
+// 默认项目始终存在，保存的列表中没有时补在最前面
+const parseProjects = (raw: unknown) => {
+  const projects = parseList(STORAGE_KEYS.projects, parseProject)(raw);
+  return projects.some((project) => project.id === DEFAULT_PROJECT_ID)
+    ? projects
+    : [DEFAULT_PROJECT, ...projects];
+};
+
+export const projectStore = createStore<Project[]>(
+  singleKey(STORAGE_KEYS.projects),
+  parseProjects,
+  [DEFAULT_PROJECT]
+);
+
+// 常用的标签组合，在标签弹窗中一键合并到图片上
+export const tagPresetStore = createStore<TagPreset[]>(
+  singleKey(STORAGE_KEYS.tagPresets),
+  parseList(STORAGE_KEYS.tagPresets, parseTagPreset),
+  []
+);
+
+export const settingsStore = createStore<Settings>(
+  singleKey(STORAGE_KEYS.settings),
+  parseSettings,
+  DEFAULT_SETTINGS
+);
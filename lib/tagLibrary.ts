@@ -0,0 +1,229 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system";
+import { formatDate } from "@/lib/dates";
+import { isRecord, parseGroupRules } from "@/lib/storage";
+import { isDuplicateTagName, normalizeName } from "@/lib/tags";
+import type { TagGroup, TagGroupRules } from "@/lib/types";
+import { escapeCsv, shareFile } from "@/lib/zipExport";
+
+export type LibraryFormat = "json" | "csv";
+
+const LIBRARY_VERSION = 1;
+
+/**
+ * A tag group as it travels between devices. Ids are local to each device, so
+ * the library only carries names and everything is matched by name on import.
+ */
+export interface LibraryGroup {
+  name: string;
+  tags: string[];
+  rules?: TagGroupRules;
+}
+
+export interface MergeReport {
+  addedGroups: number;
+  addedTags: number;
+  skippedTags: number;
+  conflicts: string[];
+}
+
+export const toLibraryGroups = (groups: TagGroup[]): LibraryGroup[] =>
+  groups.map((group) => ({
+    name: group.name,
+    tags: group.tags.map((tag) => tag.name),
+    ...(group.rules ? { rules: group.rules } : {}),
+  }));
+
+export const serializeLibrary = (groups: TagGroup[], format: LibraryFormat) => {
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        version: LIBRARY_VERSION,
+        exportedAt: new Date().toISOString(),
+        groups: toLibraryGroups(groups),
+      },
+      null,
+      2
+    );
+  }
+  // 每行一个标签；没有标签的分组单独占一行，标签列留空
+  const rows = toLibraryGroups(groups).flatMap((group) =>
+    group.tags.length > 0
+      ? group.tags.map((tag) => [group.name, tag].map(escapeCsv).join(","))
+      : [`${escapeCsv(group.name)},`]
+  );
+  // 与照片清单一致，加 BOM 避免 Excel 打开中文乱码
+  return `\uFEFF${["group,tag", ...rows].join("\n")}`;
+};
+
+// 支持带引号的字段与字段内的逗号、换行和转义引号
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const parseCsvLibrary = (text: string): LibraryGroup[] => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header || header[0]?.trim().toLowerCase() !== "group") {
+    throw new Error("CSV 第一行需要为表头 group,tag");
+  }
+  const groups = new Map<string, LibraryGroup>();
+  rows.forEach(([groupName = "", tagName = ""]) => {
+    if (!groupName.trim()) return;
+    const group = groups.get(groupName) ?? { name: groupName, tags: [] };
+    if (tagName.trim()) group.tags.push(tagName);
+    groups.set(groupName, group);
+  });
+  return [...groups.values()];
+};
+
+const parseJsonLibrary = (text: string): LibraryGroup[] => {
+  const data: unknown = JSON.parse(text);
+  // 也接受直接导出的 tagGroups 数组
+  const rawGroups = Array.isArray(data) ? data : isRecord(data) ? data.groups : null;
+  if (!Array.isArray(rawGroups)) {
+    throw new Error("JSON 中没有找到分组列表");
+  }
+  return rawGroups.flatMap((raw: unknown): LibraryGroup[] => {
+    if (!isRecord(raw) || typeof raw.name !== "string" || !raw.name.trim()) return [];
+    const tags = (Array.isArray(raw.tags) ? raw.tags : [])
+      .map((tag: unknown) => (isRecord(tag) ? tag.name : tag))
+      .filter((name): name is string => typeof name === "string" && !!name.trim());
+    const rules = parseGroupRules(raw.rules);
+    return [{ name: raw.name, tags, ...(rules ? { rules } : {}) }];
+  });
+};
+
+export const parseLibrary = (text: string, format: LibraryFormat) =>
+  format === "json" ? parseJsonLibrary(text) : parseCsvLibrary(text.replace(/^\uFEFF/, ""));
+
+const sameRules = (a?: TagGroupRules, b?: TagGroupRules) =>
+  !!a?.singleSelect === !!b?.singleSelect &&
+  !!a?.required === !!b?.required &&
+  a?.minCount === b?.minCount &&
+  a?.maxCount === b?.maxCount;
+
+/**
+ * Finds a group by name (case-insensitive) among the groups a project shows:
+ * its own groups first, then shared ones. Without a `projectId` only shared
+ * groups match, never another project's own group.
+ */
+export const findGroupByName = (groups: TagGroup[], name: string, projectId?: string) => {
+  const named = groups.filter((g) => normalizeName(g.name) === normalizeName(name));
+  return (
+    (projectId ? named.find((g) => g.projectId === projectId) : undefined) ??
+    named.find((g) => !g.projectId)
+  );
+};
+
+/**
+ * Merges an imported library into the local groups. Groups and tags are
+ * matched by name (case-insensitive); existing ones are kept as they are and
+ * only missing tags are appended. Differences that cannot be merged silently,
+ * such as different group rules or a tag that lives in another local group,
+ * are listed in `conflicts`. Groups are matched among those `projectId`
+ * shows, and new groups belong to `newGroupProjectId`, or are shared without it.
+ */
+export const mergeLibrary = (
+  groups: TagGroup[],
+  incoming: LibraryGroup[],
+  projectId?: string,
+  newGroupProjectId = projectId
+) => {
+  const report: MergeReport = { addedGroups: 0, addedTags: 0, skippedTags: 0, conflicts: [] };
+  const baseId = Date.now();
+  let idCounter = 0;
+  const nextId = () => `${baseId}-${idCounter++}`;
+  const merged = groups.map((group) => ({ ...group, tags: [...group.tags] }));
+
+  incoming.forEach((libraryGroup) => {
+    const name = libraryGroup.name.trim();
+    let group = findGroupByName(merged, name, projectId);
+    if (!group) {
+      group = {
+        id: nextId(),
+        name,
+        tags: [],
+        ...(libraryGroup.rules ? { rules: libraryGroup.rules } : {}),
+        ...(newGroupProjectId ? { projectId: newGroupProjectId } : {}),
+      };
+      merged.push(group);
+      report.addedGroups++;
+    } else if (libraryGroup.rules && !sameRules(group.rules, libraryGroup.rules)) {
+      report.conflicts.push(`分组「${group.name}」的规则与本地不同，已保留本地规则`);
+    }
+
+    const target = group;
+    libraryGroup.tags.forEach((rawTagName) => {
+      const tagName = rawTagName.trim();
+      if (isDuplicateTagName(target, tagName)) {
+        report.skippedTags++;
+        return;
+      }
+      const other = merged.find(
+        (g) =>
+          g.id !== target.id &&
+          (!g.projectId || g.projectId === projectId) &&
+          isDuplicateTagName(g, tagName)
+      );
+      if (other) {
+        report.conflicts.push(`标签「${tagName}」同时存在于「${other.name}」与「${target.name}」`);
+      }
+      target.tags.push({ id: nextId(), name: tagName, groupId: target.id });
+      report.addedTags++;
+    });
+  });
+
+  return { groups: merged, report };
+};
+
+export const exportLibraryFile = async (groups: TagGroup[], format: LibraryFormat) => {
+  const uri = `${FileSystem.cacheDirectory}tag-library_${formatDate(new Date(), "YYYYMMDD")}.${format}`;
+  await FileSystem.writeAsStringAsync(uri, serializeLibrary(groups, format));
+  return shareFile(uri, format === "json" ? "application/json" : "text/csv", "分享标签库");
+};
+
+/**
+ * Lets the user pick a library file and parses it. Returns null when the
+ * picker is cancelled; throws when the file cannot be read or parsed.
+ */
+export const pickLibraryFile = async () => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ["application/json", "text/csv", "text/comma-separated-values", "text/plain"],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+  const [file] = result.assets;
+  const text = await FileSystem.readAsStringAsync(file.uri);
+  const format: LibraryFormat = /\.csv$/i.test(file.name) ? "csv" : "json";
+  return parseLibrary(text, format);
+};
@@ -0,0 +1,37 @@
+import { createTimeTag, toDateKey } from "@/lib/timeTags";
+import type { Tag, TagGroup, TagPreset, TimeTagFormat } from "@/lib/types";
+
+export const TIME_GRANULARITY_LABELS = { day: "日", month: "月" };
+
+// 预设只保存标签 id，应用时从当前分组中取出，标签改名或移动分组后依然有效
+export const getPresetTags = (preset: TagPreset, groups: TagGroup[]): Tag[] => {
+  const tagsById = new Map<string, Tag>();
+  groups.forEach((group) =>
+    group.tags.forEach((tag) => tagsById.set(tag.id, { ...tag, groupId: group.id }))
+  );
+  return preset.tagIds.flatMap((id) => tagsById.get(id) ?? []);
+};
+
+/**
+ * The tags applying a preset adds: its tags that are offered in `groups`, plus
+ * a time tag for `date` when the preset sets one.
+ */
+export const buildPresetTags = (
+  preset: TagPreset,
+  groups: TagGroup[],
+  date: Date,
+  format: TimeTagFormat
+) => {
+  const tags = getPresetTags(preset, groups);
+  if (!preset.timeGranularity) return tags;
+  const granularity = preset.timeGranularity;
+  return [...tags, createTimeTag({ granularity, start: toDateKey(date, granularity) }, format)];
+};
+
+export const describePreset = (preset: TagPreset, groups: TagGroup[]) => {
+  const parts = getPresetTags(preset, groups).map((tag) => tag.name);
+  if (preset.timeGranularity) {
+    parts.push(`时间（${TIME_GRANULARITY_LABELS[preset.timeGranularity]}）`);
+  }
+  return parts.join("、");
+};
@@ -0,0 +1,72 @@
+import type { ImageItem, Tag, TagGroup } from "@/lib/types";
+
+const MAX_SUGGESTIONS = 8;
+const RECENT_IMAGE_COUNT = 20;
+
+// 各来源的最高得分：上一张照片最能代表正在拍的内容，其次是同时出现的标签
+const PREVIOUS_WEIGHT = 3;
+const CO_OCCURRENCE_WEIGHT = 2;
+const RECENT_WEIGHT = 1;
+
+const timeOf = (image: ImageItem) => image.capturedAt ?? image.createdAt ?? 0;
+
+/**
+ * Ranks tags for the photos being tagged from the library's tag history: tags
+ * on the previous photo, tags that often appear on the same photos as those
+ * already selected, and tags used on recent photos. Selected tags, time tags
+ * and tags that `groups` no longer offers are never suggested.
+ */
+export const suggestTags = (
+  history: ImageItem[],
+  targets: ImageItem[],
+  selected: Tag[],
+  groups: TagGroup[]
+): Tag[] => {
+  const offered = new Map<string, Tag>();
+  groups.forEach((group) =>
+    group.tags.forEach((tag) => offered.set(tag.id, { ...tag, groupId: group.id }))
+  );
+  const selectedIds = new Set(selected.filter((tag) => !tag.isTimeTag).map((tag) => tag.id));
+  const scores = new Map<string, number>();
+  const addScore = (tag: Tag, score: number) => {
+    if (!offered.has(tag.id) || selectedIds.has(tag.id)) return;
+    scores.set(tag.id, (scores.get(tag.id) ?? 0) + score);
+  };
+
+  // 正在编辑的图片不算作历史，其余按拍摄时间从新到旧
+  const targetIds = new Set(targets.map((image) => image.id));
+  const newestFirst = history
+    .filter((image) => !targetIds.has(image.id) && image.tags.some((tag) => !tag.isTimeTag))
+    .sort((a, b) => timeOf(b) - timeOf(a));
+
+  // 没有目标图片时（如连拍前选择标签）上一张即为最新的一张
+  const earliest = targets.length > 0 ? Math.min(...targets.map(timeOf)) : Infinity;
+  const previous = newestFirst.find((image) => timeOf(image) <= earliest);
+  previous?.tags.forEach((tag) => addScore(tag, PREVIOUS_WEIGHT));
+
+  if (selectedIds.size > 0) {
+    const related = newestFirst.flatMap((image) => {
+      const shared = image.tags.filter((tag) => selectedIds.has(tag.id)).length;
+      return shared > 0 ? [{ image, shared }] : [];
+    });
+    related.forEach(({ image, shared }) =>
+      image.tags.forEach((tag) =>
+        addScore(tag, (CO_OCCURRENCE_WEIGHT * shared) / (selectedIds.size * related.length))
+      )
+    );
+  }
+
+  // 越新的照片权重越高，总和为 RECENT_WEIGHT
+  const recent = newestFirst.slice(0, RECENT_IMAGE_COUNT);
+  const weightSum = (recent.length * (recent.length + 1)) / 2;
+  recent.forEach((image, index) =>
+    image.tags.forEach((tag) =>
+      addScore(tag, (RECENT_WEIGHT * (recent.length - index)) / weightSum)
+    )
+  );
+
+  return [...scores.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([id]) => offered.get(id)!);
+};
@@ -0,0 +1,217 @@
+import { getGroupRules } from "@/lib/groupRules";
+import { imageStore, tagGroupStore } from "@/lib/storage";
+import type { ImageItem, Tag, TagGroup } from "@/lib/types";
+
+/**
+ * Orders tags the way they are arranged in tag management: the time tag
+ * first, then by group position and position within the group. Tags that no
+ * longer belong to any group keep their relative order at the end.
+ */
+export const sortTagsByGroup = (tags: Tag[], groups: TagGroup[]) => {
+  const rank = new Map<string, number>();
+  groups.forEach((group) => group.tags.forEach((tag) => rank.set(tag.id, rank.size)));
+  const rankOf = (tag: Tag) => (tag.isTimeTag ? -1 : (rank.get(tag.id) ?? rank.size));
+  return [...tags].sort((a, b) => rankOf(a) - rankOf(b));
+};
+
+/**
+ * Images keep a copy of each tag by value, so every change to the tag groups
+ * has to be mirrored onto the images that reference the tag by id. The copies
+ * are also kept in group order so reordering applies to existing photos.
+ */
+export const syncImageTags = (images: ImageItem[], groups: TagGroup[]): ImageItem[] => {
+  const tagsById = new Map<string, Tag>();
+  groups.forEach((group) =>
+    group.tags.forEach((tag) => tagsById.set(tag.id, { ...tag, groupId: group.id }))
+  );
+
+  return images.map((image) => {
+    let changed = false;
+    const tags = image.tags.flatMap((tag) => {
+      // 时间标签不属于任何分组，保持原样
+      if (tag.isTimeTag) return [tag];
+      const current = tagsById.get(tag.id);
+      if (!current) {
+        changed = true;
+        return [];
+      }
+      if (current.name !== tag.name || current.groupId !== tag.groupId) {
+        changed = true;
+        return [{ ...tag, name: current.name, groupId: current.groupId }];
+      }
+      return [tag];
+    });
+    const sorted = sortTagsByGroup(tags, groups);
+    const reordered = sorted.some((tag, index) => tag !== tags[index]);
+    return changed || reordered ? { ...image, tags: sorted } : image;
+  });
+};
+
+// 逐张应用标签变更，保留每张图片原有的部分标签
+export const updateImagesTags = async (imageIds: string[], update: (tags: Tag[]) => Tag[]) => {
+  const ids = new Set(imageIds);
+  await imageStore.update((images) =>
+    images.map((image) => (ids.has(image.id) ? { ...image, tags: update(image.tags) } : image))
+  );
+};
+
+/**
+ * Matches the tags that adding `added` pushes out: copies of the same tags,
+ * the current tag of any single-select group it adds to and, when it carries
+ * a time tag, the current time tag, since a photo only has one.
+ */
+export const isReplacedBy = (added: Tag[], groups: TagGroup[]) => {
+  const addedIds = new Set(added.map((tag) => tag.id));
+  const singleSelectIds = new Set(
+    groups.filter((group) => getGroupRules(group).singleSelect).map((group) => group.id)
+  );
+  const replacedGroupIds = new Set(
+    added.flatMap((tag) => (tag.groupId && singleSelectIds.has(tag.groupId) ? [tag.groupId] : []))
+  );
+  const replacesTime = added.some((tag) => tag.isTimeTag);
+  return (tag: Tag) =>
+    addedIds.has(tag.id) ||
+    (!!tag.groupId && replacedGroupIds.has(tag.groupId)) ||
+    (replacesTime && !!tag.isTimeTag);
+};
+
+// 在图片已有的标签上合并一组标签，而不是整体替换
+export const addTags = (tags: Tag[], added: Tag[], groups: TagGroup[]) => {
+  const replaced = isReplacedBy(added, groups);
+  return sortTagsByGroup([...tags.filter((tag) => !replaced(tag)), ...added], groups);
+};
+
+export const countImagesWithTags = (images: ImageItem[], tagIds: string[]) => {
+  const ids = new Set(tagIds);
+  return images.filter((image) => image.tags.some((tag) => ids.has(tag.id))).length;
+};
+
+/**
+ * Writes the tag groups and propagates renames and deletions to every image.
+ */
+export const updateTagGroups = async (updater: (groups: TagGroup[]) => TagGroup[]) => {
+  const groups = await tagGroupStore.update(updater);
+  await imageStore.update((images) => syncImageTags(images, groups));
+  return groups;
+};
+
+const insertAt = <T>(items: T[], item: T, index: number) => [
+  ...items.slice(0, index),
+  item,
+  ...items.slice(index),
+];
+
+/**
+ * Undoes a tag or group deletion: puts the groups and tags that were in
+ * `before` but not in `after` back at their old positions, and re-adds those
+ * tags to the photos in `snapshot` that are still on the wall. Groups and
+ * tags changed since the deletion are left as they are now.
+ */
+export const restoreTagGroups = async (
+  before: TagGroup[],
+  after: TagGroup[],
+  snapshot: ImageItem[]
+) => {
+  const keptGroupIds = new Set(after.map((group) => group.id));
+  const keptTagIds = new Set(after.flatMap((group) => group.tags.map((tag) => tag.id)));
+  const deletedTagIds = new Set(
+    before.flatMap((group) => group.tags.map((tag) => tag.id)).filter((id) => !keptTagIds.has(id))
+  );
+
+  const groups = await tagGroupStore.update((current) =>
+    before.reduce((next, group, groupIndex) => {
+      if (!keptGroupIds.has(group.id)) {
+        return next.some((g) => g.id === group.id)
+          ? next
+          : insertAt(next, group, Math.min(groupIndex, next.length));
+      }
+      // 分组之后被删除时，其中的标签无处可放
+      return group.tags.reduce(
+        (result, tag, tagIndex) =>
+          keptTagIds.has(tag.id)
+            ? result
+            : result.map((g) =>
+                g.id === group.id && !g.tags.some((t) => t.id === tag.id)
+                  ? { ...g, tags: insertAt(g.tags, tag, Math.min(tagIndex, g.tags.length)) }
+                  : g
+              ),
+        next
+      );
+    }, current)
+  );
+
+  const tagsById = new Map(snapshot.map((image) => [image.id, image.tags]));
+  await imageStore.update((images) =>
+    syncImageTags(
+      images.map((image) => {
+        const currentIds = new Set(image.tags.map((tag) => tag.id));
+        const removed = (tagsById.get(image.id) ?? []).filter(
+          (tag) => deletedTagIds.has(tag.id) && !currentIds.has(tag.id)
+        );
+        return removed.length > 0 ? { ...image, tags: [...image.tags, ...removed] } : image;
+      }),
+      groups
+    )
+  );
+};
+
+export const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const isDuplicateTagName = (group: TagGroup, name: string, excludeTagId?: string) =>
+  group.tags.some(
+    (tag) => tag.id !== excludeTagId && normalizeName(tag.name) === normalizeName(name)
+  );
+
+export const isDuplicateGroupName = (groups: TagGroup[], name: string, excludeGroupId?: string) =>
+  groups.some(
+    (group) => group.id !== excludeGroupId && normalizeName(group.name) === normalizeName(name)
+  );
+
+export const renameGroup = (groups: TagGroup[], groupId: string, name: string) =>
+  groups.map((group) => (group.id === groupId ? { ...group, name: name.trim() } : group));
+
+// 按拖拽后的 id 顺序排列列表中的条目，不在列表中的（其他项目的分组、期间新增的条目）留在原位
+const reorderById = <T extends { id: string }>(items: T[], orderedIds: string[]) => {
+  const position = new Map(orderedIds.map((id, index) => [id, index]));
+  const listed = items
+    .filter((item) => position.has(item.id))
+    .sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+  let next = 0;
+  return items.map((item) => (position.has(item.id) ? listed[next++] : item));
+};
+
+export const reorderGroups = (groups: TagGroup[], groupIds: string[]) =>
+  reorderById(groups, groupIds);
+
+export const reorderTags = (groups: TagGroup[], groupId: string, tagIds: string[]) =>
+  groups.map((group) =>
+    group.id === groupId ? { ...group, tags: reorderById(group.tags, tagIds) } : group
+  );
+
+/**
+ * Renames a tag and optionally moves it into another group. A tag that stays
+ * in its group keeps its position; a moved tag is appended to the target.
+ */
+export const editTag = (
+  groups: TagGroup[],
+  tagId: string,
+  changes: { name: string; groupId: string }
+) => {
+  const source = groups.find((group) => group.tags.some((tag) => tag.id === tagId));
+  const original = source?.tags.find((tag) => tag.id === tagId);
+  if (!source || !original) return groups;
+
+  const edited: Tag = { ...original, name: changes.name.trim(), groupId: changes.groupId };
+  return groups.map((group) => {
+    if (group.id === source.id && group.id === changes.groupId) {
+      return { ...group, tags: group.tags.map((tag) => (tag.id === tagId ? edited : tag)) };
+    }
+    if (group.id === source.id) {
+      return { ...group, tags: group.tags.filter((tag) => tag.id !== tagId) };
+    }
+    if (group.id === changes.groupId) {
+      return { ...group, tags: [...group.tags, edited] };
+    }
+    return group;
+  });
+};
@@ -0,0 +1,62 @@
+import { formatDate, parseDateKey } from "@/lib/dates";
+import type { Tag, TimeTagFormat, TimeValue } from "@/lib/types";
+
+export const DEFAULT_TIME_TAG_FORMAT: TimeTagFormat = {
+  day: "YYYY年M月D日",
+  month: "YYYY年M月",
+};
+
+export const toDateKey = (date: Date, granularity: TimeValue["granularity"]) =>
+  formatDate(date, granularity === "month" ? "YYYY-MM" : "YYYY-MM-DD");
+
+// 日期键按本地时间解析，缺省的月和日取 1
+export const fromDateKey = (key: string) => {
+  const [year, month = 1, day = 1] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatTimeValue = (value: TimeValue, format: TimeTagFormat) => {
+  if (value.granularity === "month") {
+    return formatDate(fromDateKey(value.start), format.month);
+  }
+  const start = formatDate(fromDateKey(value.start), format.day);
+  if (value.granularity === "range" && value.end && value.end !== value.start) {
+    return `${start} - ${formatDate(fromDateKey(value.end), format.day)}`;
+  }
+  return start;
+};
+
+// 相同日期的时间标签共用 id，批量编辑时才能识别为同一个标签
+export const createTimeTag = (value: TimeValue, format: TimeTagFormat): Tag => ({
+  id: value.end ? `time-${value.start}_${value.end}` : `time-${value.start}`,
+  name: formatTimeValue(value, format),
+  isTimeTag: true,
+  time: value,
+});
+
+/**
+ * Builds a structured value from a free-text time tag name such as "2024年6月"
+ * or "2024-06-01". A bare year becomes a range covering the whole year.
+ */
+export const parseTimeText = (text: string): TimeValue | null => {
+  const key = parseDateKey(text);
+  if (!key) return null;
+  const parts = key.split("-");
+  if (parts.length === 1) {
+    return { granularity: "range", start: `${key}-01-01`, end: `${key}-12-31` };
+  }
+  return { granularity: parts.length === 2 ? "month" : "day", start: key };
+};
+
+/**
+ * Returns the inclusive date-key span covered by an image's time tag. Keys
+ * compare as strings, so `start` doubles as a sort key.
+ */
+export const getTimeRange = (tags: Tag[]) => {
+  const time = tags.find((tag) => tag.isTimeTag)?.time;
+  return time ? { start: time.start, end: time.end ?? time.start } : null;
+};
+
+// 更换格式后按结构化的值重新生成时间标签名称
+export const reformatTimeTags = (tags: Tag[], format: TimeTagFormat) =>
+  tags.map((tag) => (tag.time ? { ...tag, name: formatTimeValue(tag.time, format) } : tag));
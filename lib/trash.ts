@@ -0,0 +1,78 @@
+import { deleteImageFiles } from "@/lib/photoFiles";
+import { imageStore, tagGroupStore, trashStore } from "@/lib/storage";
+import { syncImageTags } from "@/lib/tags";
+import type { TrashItem } from "@/lib/types";
+
+export const TRASH_RETENTION_DAYS = 30;
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+export const getDaysLeft = (item: TrashItem, now = Date.now()) =>
+  Math.max(0, Math.ceil((item.deletedAt + RETENTION_MS - now) / (24 * 60 * 60 * 1000)));
+
+/**
+ * Moves photos from the wall into the recently-deleted bin. Their files stay
+ * on disk until the bin entry expires or is deleted for good.
+ */
+export const moveToTrash = async (imageIds: string[]) => {
+  const ids = new Set(imageIds);
+  const deletedAt = Date.now();
+  const removed: TrashItem[] = [];
+  await imageStore.update((images) => {
+    images.forEach((image, index) => {
+      if (ids.has(image.id)) removed.push({ image, deletedAt, index });
+    });
+    return images.filter((image) => !ids.has(image.id));
+  });
+  await trashStore.update((items) => [
+    ...removed,
+    ...items.filter((item) => !ids.has(item.image.id)),
+  ]);
+  return removed.length;
+};
+
+/**
+ * Puts photos back at their old positions. Tags deleted in the meantime are
+ * dropped and renamed ones are updated, as if the photo had never left.
+ */
+export const restoreFromTrash = async (imageIds: string[]) => {
+  const ids = new Set(imageIds);
+  const restored: TrashItem[] = [];
+  await trashStore.update((items) => {
+    restored.push(...items.filter((item) => ids.has(item.image.id)));
+    return items.filter((item) => !ids.has(item.image.id));
+  });
+  const groups = await tagGroupStore.load();
+  await imageStore.update((images) => {
+    const next = images.filter((image) => !ids.has(image.id));
+    [...restored]
+      .sort((a, b) => a.index - b.index)
+      .forEach((item) => next.splice(Math.min(item.index, next.length), 0, item.image));
+    return syncImageTags(next, groups);
+  });
+  return restored.length;
+};
+
+export const deleteFromTrash = async (imageIds: string[]) => {
+  const ids = new Set(imageIds);
+  const removed: TrashItem[] = [];
+  await trashStore.update((items) => {
+    removed.push(...items.filter((item) => ids.has(item.image.id)));
+    return items.filter((item) => !ids.has(item.image.id));
+  });
+  if (removed.length === 0) return;
+  // 恢复备份可能让同 id 的图片回到照片墙并写入相同的文件路径
+  const images = await imageStore.ready();
+  const inUse = new Set(
+    images.flatMap((image) => (image.thumbnailUri ? [image.uri, image.thumbnailUri] : [image.uri]))
+  );
+  await Promise.all(removed.map((item) => deleteImageFiles(item.image, inUse)));
+};
+
+// 启动时清理超过保留期限的图片
+export const purgeExpiredTrash = async (now = Date.now()) => {
+  const items = await trashStore.load();
+  const expired = items.filter((item) => now - item.deletedAt >= RETENTION_MS);
+  if (expired.length > 0) {
+    await deleteFromTrash(expired.map((item) => item.image.id));
+  }
+};
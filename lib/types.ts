@@ -0,0 +1,102 @@
+export interface TimeValue {
+  granularity: "day" | "month" | "range";
+  // Date keys: "YYYY-MM" for a month, "YYYY-MM-DD" otherwise
+  start: string;
+  // Inclusive last day, only set for ranges
+  end?: string;
+}
+
+export interface TimeTagFormat {
+  // formatDate patterns; ranges join two `day` dates
+  day: string;
+  month: string;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  groupId?: string;
+  isTimeTag?: boolean;
+  // Parsed value of a time tag; older free-text time tags may not have one
+  time?: TimeValue;
+}
+
+export interface TagGroupRules {
+  // Picking a tag replaces the group's current one
+  singleSelect: boolean;
+  // Every photo needs at least one tag from the group
+  required: boolean;
+  // Bounds on the number of the group's tags on one photo; ignored for single-select
+  minCount?: number;
+  maxCount?: number;
+}
+
+export interface TagGroup {
+  id: string;
+  name: string;
+  tags: Tag[];
+  // Missing means no restrictions
+  rules?: TagGroupRules;
+  // Only offered in this project; missing means shared by every project
+  projectId?: string;
+}
+
+export interface TagPreset {
+  id: string;
+  name: string;
+  // Applied in this order; ids whose tag has been deleted are skipped
+  tagIds: string[];
+  // Also sets a time tag of this granularity for the date picked in the tag modal
+  timeGranularity?: "day" | "month";
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  // Album that exporting to the gallery saves into
+  albumName: string;
+}
+
+export interface ImageItem {
+  id: string;
+  uri: string;
+  // Downscaled copy shown on the wall; falls back to `uri` when missing
+  thumbnailUri?: string;
+  tags: Tag[];
+  createdAt?: number;
+  // EXIF DateTimeOriginal, or the file's modification time when there is none
+  capturedAt?: number;
+  // Identifies the original gallery photo so it is not imported twice
+  sourceId?: string;
+  // Set on launch when the image file can no longer be found
+  missing?: boolean;
+  // Missing or deleted projects fall back to the default project
+  projectId?: string;
+}
+
+export interface TrashItem {
+  image: ImageItem;
+  deletedAt: number;
+  // Position on the wall before deletion, used to put the photo back in place
+  index: number;
+}
+
+export interface ImageFilter {
+  // How `includeTagIds` combine; excluded tags always apply
+  mode: "and" | "or";
+  includeTagIds: string[];
+  excludeTagIds: string[];
+  untaggedOnly: boolean;
+  // Matches photos that lack a tag from any of these groups
+  missingGroupIds: string[];
+  // Time tag range such as "2024-06" to "2024-08"; empty means unbounded
+  timeFrom: string;
+  timeTo: string;
+}
+
+export interface Settings {
+  fileNameTemplate: string;
+  wallFilter: ImageFilter;
+  timeTagFormat: TimeTagFormat;
+  currentProjectId: string;
+}
@@ -0,0 +1,79 @@
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import { zip } from "react-native-zip-archive";
+import { formatDate, getImageDate } from "@/lib/dates";
+import type { ImageItem, TagGroup } from "@/lib/types";
+
+export const EXPORT_DIR = `${FileSystem.documentDirectory}exports/`;
+
+export interface ManifestEntry {
+  file: string;
+  id: string;
+  date: string;
+  tags: { id: string; name: string; group?: string; isTimeTag?: boolean }[];
+}
+
+// react-native-zip-archive 只接受不带 file:// 前缀的本地路径
+export const toNativePath = (uri: string) => decodeURI(uri.replace(/^file:\/\//, ""));
+
+export const escapeCsv = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const buildCsv = (entries: ManifestEntry[]) => {
+  const rows = entries.map((entry) =>
+    [
+      entry.file,
+      entry.id,
+      entry.date,
+      entry.tags.find((tag) => tag.isTimeTag)?.name ?? "",
+      entry.tags
+        .filter((tag) => !tag.isTimeTag)
+        .map((tag) => (tag.group ? `${tag.group}/${tag.name}` : tag.name))
+        .join(";"),
+    ]
+      .map(escapeCsv)
+      .join(",")
+  );
+  // 加 BOM，避免 Excel 打开中文乱码
+  return `\uFEFF${["file,id,date,time,tags", ...rows].join("\n")}`;
+};
+
+export const buildManifestEntry = (
+  image: ImageItem,
+  file: string,
+  groups: TagGroup[]
+): ManifestEntry => ({
+  file,
+  id: image.id,
+  date: formatDate(getImageDate(image), "YYYY-MM-DD HH:mm:ss"),
+  tags: image.tags.map((tag) => ({
+    id: tag.id,
+    name: tag.name,
+    group: groups.find((group) => group.id === tag.groupId)?.name,
+    isTimeTag: tag.isTimeTag,
+  })),
+});
+
+/**
+ * Writes `manifest.json` and `manifest.csv` into `dir` and zips the whole
+ * folder into `EXPORT_DIR`, returning the archive URI.
+ */
+export const zipWithManifest = async (dir: string, entries: ManifestEntry[], name: string) => {
+  const manifest = { generatedAt: new Date().toISOString(), count: entries.length, files: entries };
+  await FileSystem.writeAsStringAsync(`${dir}manifest.json`, JSON.stringify(manifest, null, 2));
+  await FileSystem.writeAsStringAsync(`${dir}manifest.csv`, buildCsv(entries));
+
+  await FileSystem.makeDirectoryAsync(EXPORT_DIR, { intermediates: true }).catch(() => undefined);
+  const target = `${EXPORT_DIR}${name}.zip`;
+  await FileSystem.deleteAsync(target, { idempotent: true });
+  await zip(toNativePath(dir), toNativePath(target));
+  return target;
+};
+
+export const shareFile = async (uri: string, mimeType: string, dialogTitle: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    return false;
+  }
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle });
+  return true;
+};